@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { api, ApiError, extractAuthToken, type LoginCredentials, type LoginResponse } from "@/lib/api"
+import { applySessionCookies, toPublicSessionPayload } from "@/lib/server-auth"
+
+export async function POST(request: Request) {
+  let credentials: LoginCredentials
+
+  try {
+    credentials = (await request.json()) as LoginCredentials
+  } catch {
+    return NextResponse.json({ message: "Solicitud de inicio de sesión inválida" }, { status: 400 })
+  }
+
+  try {
+    const payload = await api.post<LoginResponse>("/auth/login", credentials, { skipAuth: true })
+
+    if (!extractAuthToken(payload)) {
+      return NextResponse.json(
+        { message: "Token de autenticación no encontrado en la respuesta del servidor" },
+        { status: 502 },
+      )
+    }
+
+    // Se devuelve el token de acceso para que el navegador pueda llamar directamente al backend
+    const response = NextResponse.json(toPublicSessionPayload(payload))
+    applySessionCookies(response, payload)
+    return response
+  } catch (error) {
+    console.error("Error iniciando sesión en el backend:", error)
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(error.payload ?? { message: error.message }, { status: error.statusCode })
+    }
+
+    return NextResponse.json({ message: "No se pudo contactar al servidor de autenticación" }, { status: 502 })
+  }
+}
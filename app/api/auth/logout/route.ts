@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookies } from "@/lib/server-auth"
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 })
+  clearSessionCookies(response)
+  return response
+}
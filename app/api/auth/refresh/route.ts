@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { api, ApiError, extractAuthToken, type LoginResponse } from "@/lib/api"
+import { applySessionCookies, clearSessionCookies, getServerRefreshToken, toPublicSessionPayload } from "@/lib/server-auth"
+
+export async function POST() {
+  const refreshToken = getServerRefreshToken()
+
+  if (!refreshToken) {
+    return NextResponse.json({ message: "No hay una sesión renovable" }, { status: 401 })
+  }
+
+  try {
+    // El token de acceso vencido no debe acompañar al intercambio
+    const payload = await api.post<LoginResponse>("/auth/refresh", { refreshToken }, { skipAuth: true })
+
+    if (!extractAuthToken(payload)) {
+      return NextResponse.json(
+        { message: "Token de autenticación no encontrado en la respuesta del servidor" },
+        { status: 502 },
+      )
+    }
+
+    const response = NextResponse.json(toPublicSessionPayload(payload))
+    applySessionCookies(response, payload)
+    return response
+  } catch (error) {
+    console.error("Error renovando la sesión en el backend:", error)
+
+    if (error instanceof ApiError) {
+      const response = NextResponse.json(error.payload ?? { message: error.message }, { status: error.statusCode })
+      if (error.statusCode === 401 || error.statusCode === 403) {
+        clearSessionCookies(response)
+      }
+      return response
+    }
+
+    return NextResponse.json({ message: "No se pudo contactar al servidor de autenticación" }, { status: 502 })
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { isTokenExpired } from "@/lib/jwt"
+import { getServerAuthToken, getServerRefreshToken } from "@/lib/server-auth"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  const token = getServerAuthToken()
+  const authenticated = (token !== null && !isTokenExpired(token)) || getServerRefreshToken() !== null
+
+  return NextResponse.json({ authenticated })
+}
@@ -1,141 +1,19 @@
-"use client"
-
-import { useEffect, useState, type ChangeEvent, type FormEvent } from "react"
-import Link from "next/link"
-import { useRouter } from "next/navigation"
-import { authApi, ApiError } from "@/lib/api"
-import { ErrorMessage } from "@/components/ui/error-message"
+import { Suspense } from "react"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { LoginPageContent } from "./login-page-content"
 
-interface LoginFormState {
-  email: string
-  password: string
+function LoginPageFallback() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner className="w-8 h-8 text-green-600" />
+    </div>
+  )
 }
 
 export default function LoginPage() {
-  const router = useRouter()
-  const [formData, setFormData] = useState<LoginFormState>({ email: "", password: "" })
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    const token = authApi.getToken()
-    if (token) {
-      router.replace("/")
-    }
-  }, [router])
-
-  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = event.target
-    setFormData((prev) => ({ ...prev, [name]: value }))
-  }
-
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      await authApi.login({
-        email: formData.email.trim(),
-        password: formData.password,
-      })
-
-      router.replace("/")
-      router.refresh()
-    } catch (err) {
-      console.error("Error iniciando sesión:", err)
-
-      if (err instanceof ApiError) {
-        if (err.statusCode === 401) {
-          setError("Credenciales inválidas. Verifica tu correo y contraseña.")
-        } else {
-          setError(err.message)
-        }
-      } else if (err instanceof Error) {
-        setError(err.message)
-      } else {
-        setError("No se pudo iniciar sesión. Intenta nuevamente más tarde.")
-      }
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const isFormValid = formData.email.trim().length > 0 && formData.password.trim().length > 0
-
   return (
-    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
-      <div className="w-full max-w-md">
-        <div className="bg-white shadow-lg rounded-lg p-8">
-          <div className="mb-8 text-center">
-            <h1 className="text-3xl font-bold text-gray-900">Iniciar Sesión</h1>
-            <p className="text-gray-600 mt-2">Accede al panel administrativo de la biblioteca</p>
-          </div>
-
-          {error && <ErrorMessage message={error} className="mb-6" />}
-
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Correo Electrónico
-              </label>
-              <input
-                type="email"
-                id="email"
-                name="email"
-                autoComplete="email"
-                value={formData.email}
-                onChange={handleInputChange}
-                required
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                placeholder="ejemplo@correo.com"
-                disabled={isLoading}
-              />
-            </div>
-
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Contraseña
-              </label>
-              <input
-                type="password"
-                id="password"
-                name="password"
-                autoComplete="current-password"
-                value={formData.password}
-                onChange={handleInputChange}
-                required
-                minLength={6}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                placeholder="Ingresa tu contraseña"
-                disabled={isLoading}
-              />
-            </div>
-
-            <button
-              type="submit"
-              disabled={!isFormValid || isLoading}
-              className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-            >
-              {isLoading ? (
-                <>
-                  <LoadingSpinner className="w-4 h-4" />
-                  Verificando...
-                </>
-              ) : (
-                "Ingresar"
-              )}
-            </button>
-          </form>
-
-          <div className="mt-6 text-center">
-            <Link href="/" className="text-sm text-green-600 hover:text-green-700 font-medium">
-              Volver al inicio
-            </Link>
-          </div>
-        </div>
-      </div>
-    </main>
+    <Suspense fallback={<LoginPageFallback />}>
+      <LoginPageContent />
+    </Suspense>
   )
 }
@@ -0,0 +1,327 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { copiesApi, librariesApi } from "@/lib/api"
+import { COPY_STATUS_LABELS, formatCopyAvailability, getCopyAvailability } from "@/lib/copies"
+import { formatLoanDueDate, isLoanOverdue } from "@/lib/loans"
+import { queryKeys } from "@/lib/query"
+import type { Book, BookCopy, CopyStatus, CreateCopyDto, Loan } from "@/lib/types"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useQuery } from "@/hooks/use-query"
+
+// Estados que el personal fija a mano; los de préstamo y reserva los gestiona la circulación
+const EDITABLE_STATUSES: readonly CopyStatus[] = ["available", "maintenance", "lost"]
+
+const STATUS_BADGE_CLASSES: Record<CopyStatus, string> = {
+  available: "bg-green-100 text-green-800",
+  on_loan: "bg-red-100 text-red-800",
+  on_hold: "bg-yellow-100 text-yellow-800",
+  maintenance: "bg-gray-100 text-gray-800",
+  lost: "bg-gray-100 text-gray-800",
+}
+
+interface BookCopiesProps {
+  book: Book
+  /** Préstamos activos del libro, para indicar quién tiene cada ejemplar */
+  activeLoans: Loan[]
+  returningLoanId: string | null
+  onReturnLoan: (loanId: string) => void
+}
+
+export function BookCopies({ book, activeLoans, returningLoanId, onReturnLoan }: BookCopiesProps) {
+  const { can } = usePermissions()
+  // El detalle del libro no siempre incluye los ejemplares. Si el backend no lleva inventario por ejemplar
+  // la consulta falla y el título se sigue prestando como un único ejemplar, sin mostrar el error
+  const copiesQuery = useQuery(queryKeys.bookCopies(book.id), (signal) => copiesApi.getByBook(book.id, { signal }), {
+    enabled: !book.copies,
+  })
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  const [formData, setFormData] = useState<CreateCopyDto>({
+    barcode: "",
+    libraryId: book.libraryId,
+    shelfLocation: "",
+  })
+  const [isSaving, setIsSaving] = useState(false)
+  const [updatingCopyId, setUpdatingCopyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const copies = book.copies ?? copiesQuery.data ?? []
+  const libraries = librariesQuery.data ?? []
+  const librariesById = new Map(libraries.map((library) => [library.id, library]))
+  const loansByCopyId = new Map(activeLoans.flatMap((loan) => (loan.copyId ? [[loan.copyId, loan] as const] : [])))
+  const canEdit = can("books:write")
+
+  const handleFieldChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }))
+  }
+
+  const handleAddCopy = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const barcode = formData.barcode.trim()
+    if (copies.some((copy) => copy.barcode === barcode)) {
+      setError(`Ya existe un ejemplar con el código ${barcode}`)
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      await copiesApi.create(book.id, {
+        ...formData,
+        barcode,
+        shelfLocation: formData.shelfLocation?.trim() || undefined,
+      })
+      setFormData((prev) => ({ ...prev, barcode: "", shelfLocation: "" }))
+    } catch (err) {
+      console.error("Error creating copy:", err)
+
+      setError(err instanceof Error ? err.message : "Error al agregar el ejemplar")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const runCopyAction = async (copyId: string, action: () => Promise<unknown>, fallbackMessage: string) => {
+    setUpdatingCopyId(copyId)
+    setError(null)
+
+    try {
+      await action()
+    } catch (err) {
+      console.error("Error updating copy:", err)
+
+      setError(err instanceof Error ? err.message : fallbackMessage)
+    } finally {
+      setUpdatingCopyId(null)
+    }
+  }
+
+  const handleDeleteCopy = (copy: BookCopy) => {
+    if (!window.confirm(`¿Dar de baja el ejemplar ${copy.barcode}?`)) {
+      return
+    }
+
+    void runCopyAction(copy.id, () => copiesApi.delete(copy.id), "Error al eliminar el ejemplar")
+  }
+
+  const now = new Date()
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+
+  return (
+    <div className="mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Ejemplares</h2>
+        {copies.length > 0 && (
+          <span className="text-sm text-gray-600">
+            {formatCopyAvailability(getCopyAvailability({ ...book, copies }))}
+          </span>
+        )}
+      </div>
+
+      {error && <ErrorMessage message={error} className="mb-4" />}
+
+      {copiesQuery.isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner className="w-6 h-6 text-blue-600" />
+        </div>
+      ) : copies.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+          Este título no tiene ejemplares registrados y se presta como un único ejemplar
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th
+                    scope="col"
+                    className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                  >
+                    Código de barras
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                  >
+                    Biblioteca
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                  >
+                    Ubicación
+                  </th>
+                  <th
+                    scope="col"
+                    className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                  >
+                    Estado
+                  </th>
+                  <th scope="col" className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {copies.map((copy) => {
+                  const loan = loansByCopyId.get(copy.id)
+                  const library = copy.library ?? librariesById.get(copy.libraryId)
+                  const isEditable = !loan && EDITABLE_STATUSES.includes(copy.status)
+
+                  return (
+                    <tr key={copy.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-mono text-gray-900">{copy.barcode}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {library ? (
+                          <Link href={`/libraries/${library.id}`} className="hover:text-blue-600">
+                            {library.name}
+                          </Link>
+                        ) : (
+                          "No disponible"
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{copy.shelfLocation || "—"}</td>
+                      <td className="px-4 py-3 text-sm">
+                        {canEdit && isEditable ? (
+                          <select
+                            aria-label={`Estado del ejemplar ${copy.barcode}`}
+                            value={copy.status}
+                            onChange={(e) =>
+                              void runCopyAction(
+                                copy.id,
+                                () => copiesApi.update(copy.id, { status: e.target.value as CopyStatus }),
+                                "Error al actualizar el ejemplar",
+                              )
+                            }
+                            disabled={updatingCopyId !== null}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          >
+                            {EDITABLE_STATUSES.map((status) => (
+                              <option key={status} value={status}>
+                                {COPY_STATUS_LABELS[status]}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[copy.status]}`}
+                          >
+                            {COPY_STATUS_LABELS[copy.status]}
+                          </span>
+                        )}
+                        {loan && (
+                          <p className={`text-xs mt-1 ${isLoanOverdue(loan, now) ? "text-red-600" : "text-gray-500"}`}>
+                            <Link href={`/members/${loan.memberId}`} className="hover:text-blue-600">
+                              {loan.member?.name ?? "Miembro no encontrado"}
+                            </Link>{" "}
+                            · hasta el {formatLoanDueDate(loan) ?? "sin fecha"}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {loan && can("loans:return") && (
+                          <button
+                            type="button"
+                            onClick={() => onReturnLoan(loan.id)}
+                            disabled={returningLoanId !== null}
+                            className="bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {returningLoanId === loan.id ? "Devolviendo..." : "Devolver"}
+                          </button>
+                        )}
+                        {canEdit && isEditable && (
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteCopy(copy)}
+                            disabled={updatingCopyId !== null}
+                            className="text-red-600 hover:text-red-800 text-sm font-medium disabled:opacity-50"
+                          >
+                            Dar de baja
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleAddCopy} className="bg-white rounded-lg shadow-md p-6 mt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-4">Agregar ejemplar</h3>
+          <div className="grid md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="copy-barcode" className="block text-sm font-medium text-gray-700 mb-2">
+                Código de barras
+              </label>
+              <input
+                id="copy-barcode"
+                name="barcode"
+                value={formData.barcode}
+                onChange={handleFieldChange}
+                required
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="copy-library" className="block text-sm font-medium text-gray-700 mb-2">
+                Biblioteca
+              </label>
+              <select
+                id="copy-library"
+                name="libraryId"
+                value={formData.libraryId}
+                onChange={handleFieldChange}
+                required
+                className={inputClassName}
+                disabled={isSaving}
+              >
+                {libraries.map((library) => (
+                  <option key={library.id} value={library.id}>
+                    {library.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="copy-shelf" className="block text-sm font-medium text-gray-700 mb-2">
+                Ubicación
+              </label>
+              <input
+                id="copy-shelf"
+                name="shelfLocation"
+                value={formData.shelfLocation ?? ""}
+                onChange={handleFieldChange}
+                placeholder="p. ej. B-12"
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving || !formData.barcode.trim() || !formData.libraryId}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Agregando..." : "Agregar"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,361 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { booksApi, holdsApi, librariesApi, loansApi, membersApi } from "@/lib/api"
+import { formatCopyAvailability, getCopyAvailability, hasCopyInventory } from "@/lib/copies"
+import { HOLD_STATUS_LABELS, getHoldPickupDeadline, getHoldQueue } from "@/lib/holds"
+import {
+  compareLoansByDateDesc,
+  formatLoanDate,
+  formatLoanDueDate,
+  getMissingLoanRelationIds,
+  isLoanOverdue,
+} from "@/lib/loans"
+import { queryKeys } from "@/lib/query"
+import { PlaceHoldForm } from "@/components/place-hold-form"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useQuery } from "@/hooks/use-query"
+import { BookCopies } from "./book-copies"
+
+interface BookDetailProps {
+  bookId: string
+}
+
+export function BookDetail({ bookId }: BookDetailProps) {
+  const { can } = usePermissions()
+  const bookQuery = useQuery(queryKeys.book(bookId), (signal) => booksApi.getById(bookId, { signal }))
+  const libraryId = bookQuery.data?.libraryId ?? ""
+  // El libro puede incluir su biblioteca sin dirección ni horario: se pide el detalle completo
+  const libraryQuery = useQuery(queryKeys.library(libraryId), (signal) => librariesApi.getById(libraryId, { signal }), {
+    enabled: Boolean(libraryId),
+  })
+  const loansQuery = useQuery(queryKeys.loans({ bookId }), (signal) => loansApi.getAll({ bookId }, { signal }))
+  const holdsQuery = useQuery(queryKeys.holds({ bookId }), (signal) => holdsApi.getAll({ bookId }, { signal }))
+  // Solo los miembros de los préstamos y reservas del libro que el backend no incluye
+  const memberIds = Array.from(
+    new Set([
+      ...getMissingLoanRelationIds(loansQuery.data ?? []).memberIds,
+      ...(holdsQuery.data ?? []).filter((hold) => !hold.member).map((hold) => hold.memberId),
+    ]),
+  ).sort()
+  const membersQuery = useQuery(
+    queryKeys.membersByIds(memberIds),
+    (signal) => membersApi.getByIds(memberIds, { signal }),
+    { enabled: memberIds.length > 0 },
+  )
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [returningLoanId, setReturningLoanId] = useState<string | null>(null)
+
+  const book = bookQuery.data
+  const library = libraryQuery.data ?? book?.library
+
+  const loans = useMemo(() => {
+    const membersById = new Map((membersQuery.data ?? []).map((member) => [member.id, member]))
+
+    return (
+      (loansQuery.data ?? [])
+        // Por si el backend ignora el filtro `bookId`
+        .filter((loan) => loan.bookId === bookId)
+        .map((loan) => ({ ...loan, member: loan.member ?? membersById.get(loan.memberId) }))
+        .sort(compareLoansByDateDesc)
+    )
+  }, [bookId, loansQuery.data, membersQuery.data])
+
+  const activeLoans = loans.filter((loan) => !loan.isReturned)
+  const pastLoans = loans.filter((loan) => loan.isReturned)
+  // Con varios ejemplares el título sigue disponible aunque alguno esté prestado
+  const hasInventory = book ? hasCopyInventory(book) : false
+  const activeLoan = hasInventory ? undefined : activeLoans[0]
+  const isAvailable = book ? book.available && !activeLoan : false
+  const holdQueue = useMemo(() => {
+    const membersById = new Map((membersQuery.data ?? []).map((member) => [member.id, member]))
+
+    return getHoldQueue(holdsQuery.data ?? [], bookId).map((hold) => ({
+      ...hold,
+      book: hold.book ?? book,
+      member: hold.member ?? membersById.get(hold.memberId),
+    }))
+  }, [book, bookId, holdsQuery.data, membersQuery.data])
+  const readyHold = holdQueue.find((hold) => hold.status === "ready")
+  // El listado completo de miembros solo hace falta para elegir a quién reservar
+  const canPlaceHold = Boolean(book) && !isAvailable && can("holds:manage")
+  const allMembersQuery = useQuery(queryKeys.members(), (signal) => membersApi.getAll({ signal }), {
+    enabled: canPlaceHold,
+  })
+
+  const loadError =
+    bookQuery.error ??
+    loansQuery.error ??
+    membersQuery.error ??
+    libraryQuery.error ??
+    holdsQuery.error ??
+    allMembersQuery.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "No se pudo cargar el libro"
+  const error = actionError ?? (loadError ? loadErrorMessage : null)
+  const isLoading = bookQuery.isLoading || loansQuery.isLoading
+
+  const handleReturnLoan = async (loanId: string) => {
+    setReturningLoanId(loanId)
+    setActionError(null)
+
+    try {
+      // La caché de consultas se invalida tras la mutación y recarga el libro y sus préstamos
+      await loansApi.returnLoan(loanId)
+    } catch (err) {
+      console.error("Error returning loan:", err)
+
+      const message = err instanceof Error ? err.message : "Error al devolver el préstamo"
+      setActionError(message)
+    } finally {
+      setReturningLoanId(null)
+    }
+  }
+
+  const now = new Date()
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center gap-4 mb-8">
+            <Link href="/books" className="text-gray-600 hover:text-gray-800 transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{book?.title ?? "Detalle del libro"}</h1>
+              {book && <p className="text-gray-600 mt-1">{book.author}</p>}
+            </div>
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-blue-600" />
+            </div>
+          ) : !book ? (
+            !error && <ErrorMessage message="Libro no encontrado" />
+          ) : (
+            <>
+              <div className="grid md:grid-cols-2 gap-6 mb-8">
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Disponibilidad</h2>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        readyHold
+                          ? "bg-yellow-100 text-yellow-800"
+                          : isAvailable
+                            ? "bg-green-100 text-green-800"
+                            : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {readyHold
+                        ? "Apartado"
+                        : hasInventory
+                          ? formatCopyAvailability(getCopyAvailability(book))
+                          : isAvailable
+                            ? "Disponible"
+                            : "Prestado"}
+                    </span>
+                  </div>
+
+                  {activeLoan ? (
+                    <div className="space-y-1 text-sm text-gray-600 mb-4">
+                      <p>
+                        En manos de:{" "}
+                        <Link
+                          href={`/members/${activeLoan.memberId}`}
+                          className="font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          {activeLoan.member?.name ?? "Miembro no encontrado"}
+                        </Link>
+                      </p>
+                      <p>Prestado: {formatLoanDate(activeLoan.loanDate) ?? "Fecha no disponible"}</p>
+                      <p className={isLoanOverdue(activeLoan, now) ? "text-red-600 font-medium" : undefined}>
+                        Devolución prevista: {formatLoanDueDate(activeLoan) ?? "Sin fecha"}
+                        {isLoanOverdue(activeLoan, now) && " (vencido)"}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600 mb-4">
+                      {readyHold
+                        ? `Apartado para ${readyHold.member?.name ?? "un miembro"} hasta el ${
+                            getHoldPickupDeadline(readyHold)?.toLocaleDateString("es-ES") ?? "fin de su plazo"
+                          }`
+                        : hasInventory
+                          ? `${activeLoans.length} ${activeLoans.length === 1 ? "ejemplar prestado" : "ejemplares prestados"}`
+                          : isAvailable
+                            ? "Listo para prestar en su biblioteca"
+                            : "No figura un préstamo activo para este libro"}
+                    </p>
+                  )}
+
+                  {book.isbn && <p className="text-xs text-gray-500 mb-4">ISBN: {book.isbn}</p>}
+
+                  <div className="flex flex-wrap gap-2">
+                    {isAvailable && can("loans:create") && (
+                      <Link
+                        href={`/loans?libraryId=${encodeURIComponent(book.libraryId)}&bookId=${encodeURIComponent(book.id)}`}
+                        className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors text-sm"
+                      >
+                        Prestar
+                      </Link>
+                    )}
+                    {activeLoan && can("loans:return") && (
+                      <button
+                        type="button"
+                        onClick={() => void handleReturnLoan(activeLoan.id)}
+                        disabled={returningLoanId !== null}
+                        className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                      >
+                        {returningLoanId === activeLoan.id && <LoadingSpinner className="w-4 h-4" />}
+                        Registrar devolución
+                      </button>
+                    )}
+                    {can("books:write") && (
+                      <Link
+                        href={`/books/${book.id}/edit`}
+                        className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors text-sm"
+                      >
+                        Editar
+                      </Link>
+                    )}
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Biblioteca</h2>
+                  {library ? (
+                    <div className="space-y-2 text-sm text-gray-600">
+                      <Link href={`/libraries/${library.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                        {library.name}
+                      </Link>
+                      <p>Dirección: {library.address || "No registrada"}</p>
+                      <p>Horario: {library.openingHours || "No registrado"}</p>
+                    </div>
+                  ) : libraryQuery.isLoading ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <LoadingSpinner className="w-4 h-4" /> Cargando biblioteca...
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-600">Biblioteca no especificada</p>
+                  )}
+                </div>
+              </div>
+
+              <BookCopies
+                book={book}
+                activeLoans={activeLoans}
+                returningLoanId={returningLoanId}
+                onReturnLoan={(loanId) => void handleReturnLoan(loanId)}
+              />
+
+              {(holdQueue.length > 0 || (!isAvailable && can("holds:manage"))) && (
+                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Reservas</h2>
+                    {can("holds:manage") && (
+                      <Link
+                        href={`/holds?bookId=${encodeURIComponent(book.id)}`}
+                        className="text-sm text-purple-600 hover:text-purple-800 font-medium"
+                      >
+                        Gestionar reservas
+                      </Link>
+                    )}
+                  </div>
+                  {holdQueue.length === 0 ? (
+                    <p className="text-sm text-gray-600 mb-4">Nadie está esperando este libro</p>
+                  ) : (
+                    <ol className="space-y-2 text-sm text-gray-600 mb-4">
+                      {holdQueue.map((hold, index) => (
+                        <li key={hold.id} className="flex flex-wrap items-center gap-2">
+                          <span className="text-gray-500">{index + 1}.</span>
+                          <Link href={`/members/${hold.memberId}`} className="text-gray-900 hover:text-blue-600">
+                            {hold.member?.name ?? "Miembro no encontrado"}
+                          </Link>
+                          <span className="text-xs text-gray-500">
+                            {HOLD_STATUS_LABELS[hold.status]} · reservado el{" "}
+                            {formatLoanDate(hold.createdAt) ?? "fecha no disponible"}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  {canPlaceHold && (
+                    <PlaceHoldForm
+                      books={[book]}
+                      members={allMembersQuery.data ?? []}
+                      holds={holdQueue}
+                      activeLoans={activeLoan ? [activeLoan] : []}
+                    />
+                  )}
+                </div>
+              )}
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Historial de préstamos</h2>
+                {pastLoans.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    Este libro aún no tiene préstamos devueltos
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Miembro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Prestado
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Devuelto
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {pastLoans.map((loan) => (
+                            <tr key={loan.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3 text-sm">
+                                <Link href={`/members/${loan.memberId}`} className="text-gray-900 hover:text-blue-600">
+                                  {loan.member?.name ?? "Miembro no encontrado"}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-500">
+                                {formatLoanDate(loan.loanDate) ?? "Fecha no disponible"}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-500">
+                                {formatLoanDate(loan.returnDate) ?? "Fecha no disponible"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -4,11 +4,16 @@ import type React from "react"
 
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { booksApi, librariesApi, ApiError, authApi } from "@/lib/api"
+import { booksApi, librariesApi } from "@/lib/api"
 import type { Book, CreateBookDto, Library } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
+import { findBookWithIsbn, getDuplicateIsbnError, parseIsbn } from "@/lib/isbn"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const BOOK_FORM_FIELDS = ["title", "author", "isbn", "libraryId"] as const
+
 interface EditBookFormProps {
   bookId: string
 }
@@ -27,6 +32,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
   const [isLoadingLibraries, setIsLoadingLibraries] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof BOOK_FORM_FIELDS)[number]>>({})
 
   useEffect(() => {
     let isActive = true
@@ -51,13 +57,6 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
 
         console.error("Error loading book:", err)
 
-        if (err instanceof ApiError && err.statusCode === 401) {
-          authApi.clearToken()
-          setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-          router.replace("/auth/login")
-          return
-        }
-
         const message = err instanceof Error ? err.message : "No se pudo cargar el libro"
         setError(message)
       } finally {
@@ -72,7 +71,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
     return () => {
       isActive = false
     }
-  }, [bookId, router])
+  }, [bookId])
 
   useEffect(() => {
     let isActive = true
@@ -97,13 +96,6 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
 
         console.error("Error loading libraries:", err)
 
-        if (err instanceof ApiError && err.statusCode === 401) {
-          authApi.clearToken()
-          setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-          router.replace("/auth/login")
-          return
-        }
-
         const message = err instanceof Error ? err.message : "No se pudieron cargar las bibliotecas"
         setError(message)
       } finally {
@@ -118,7 +110,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
     return () => {
       isActive = false
     }
-  }, [router])
+  }, [])
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = event.target
@@ -126,6 +118,19 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
       ...previous,
       [name]: value,
     }))
+    setFieldErrors((previous) => ({ ...previous, [name]: undefined }))
+  }
+
+  // Muestra el ISBN ya convertido a ISBN-13 en cuanto el usuario sale del campo
+  const handleIsbnBlur = () => {
+    const value = formData.isbn?.trim()
+    if (!value) return
+
+    const { isbn, error: isbnError } = parseIsbn(value)
+    if (isbn) {
+      setFormData((previous) => ({ ...previous, isbn }))
+    }
+    setFieldErrors((previous) => ({ ...previous, isbn: isbnError }))
   }
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -137,6 +142,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
 
     setIsSaving(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       const trimmedTitle = formData.title.trim()
@@ -162,14 +168,31 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
         return
       }
 
+      const parsedIsbn = trimmedIsbn ? parseIsbn(trimmedIsbn) : null
+      if (parsedIsbn?.error) {
+        setFieldErrors({ isbn: parsedIsbn.error })
+        setIsSaving(false)
+        return
+      }
+
+      if (parsedIsbn?.isbn) {
+        const libraryBooks = await booksApi.findByIsbn(parsedIsbn.isbn, { libraryId: selectedLibraryId })
+        const duplicate = findBookWithIsbn(libraryBooks, parsedIsbn.isbn, selectedLibraryId, bookId)
+        if (duplicate) {
+          setFieldErrors({ isbn: getDuplicateIsbnError(duplicate) })
+          setIsSaving(false)
+          return
+        }
+      }
+
       const payload: Partial<CreateBookDto> = {
         title: trimmedTitle,
         author: trimmedAuthor,
         libraryId: selectedLibraryId,
       }
 
-      if (trimmedIsbn) {
-        payload.isbn = trimmedIsbn
+      if (parsedIsbn?.isbn) {
+        payload.isbn = parsedIsbn.isbn
       }
 
       await booksApi.update(bookId, payload)
@@ -178,15 +201,13 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
     } catch (err) {
       console.error("Error updating book:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
-
-      const message = err instanceof Error ? err.message : "Error al actualizar el libro"
-      setError(message)
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(
+        err,
+        BOOK_FORM_FIELDS,
+        "Error al actualizar el libro",
+      )
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsSaving(false)
     }
@@ -226,10 +247,11 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
           required
           value={formData.title}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.title ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
           placeholder="Ingresa el título del libro"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.title} />
       </div>
 
       <div>
@@ -243,10 +265,11 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
           required
           value={formData.author}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.author ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
           placeholder="Ingresa el nombre del autor"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.author} />
       </div>
 
       <div>
@@ -259,10 +282,12 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
           type="text"
           value={formData.isbn}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          placeholder="Ingresa el ISBN del libro"
+          onBlur={handleIsbnBlur}
+          className={`w-full px-3 py-2 border ${fieldErrors.isbn ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+          placeholder="ISBN-10 o ISBN-13, con o sin guiones"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.isbn} />
       </div>
 
       <div>
@@ -280,7 +305,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
             value={formData.libraryId}
             onChange={handleInputChange}
             required
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            className={`w-full px-3 py-2 border ${fieldErrors.libraryId ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
             disabled={isSaving}
           >
             {libraries.map((library) => (
@@ -294,6 +319,7 @@ export function EditBookForm({ bookId }: EditBookFormProps) {
             No hay bibliotecas registradas. Crea una biblioteca para poder asociar el libro.
           </p>
         )}
+        <FieldError message={fieldErrors.libraryId} />
       </div>
 
       <div className="flex gap-4 pt-4">
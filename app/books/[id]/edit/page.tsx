@@ -2,6 +2,7 @@ import { Suspense } from "react"
 import Link from "next/link"
 import { notFound } from "next/navigation"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { RequirePermission } from "@/components/require-permission"
 import { EditBookForm } from "./edit-book-form"
 
 interface EditBookPageProps {
@@ -41,7 +42,9 @@ export default function EditBookPage({ params }: EditBookPageProps) {
                 </div>
               }
             >
-              <EditBookForm bookId={bookId} />
+              <RequirePermission permission="books:write">
+                <EditBookForm bookId={bookId} />
+              </RequirePermission>
             </Suspense>
           </div>
         </div>
@@ -0,0 +1,16 @@
+import { notFound } from "next/navigation"
+import { BookDetail } from "./book-detail"
+
+interface BookDetailPageProps {
+  params: { id?: string }
+}
+
+export default function BookDetailPage({ params }: BookDetailPageProps) {
+  const bookId = params.id
+
+  if (!bookId) {
+    notFound()
+  }
+
+  return <BookDetail bookId={bookId} />
+}
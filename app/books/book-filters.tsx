@@ -0,0 +1,107 @@
+"use client"
+
+import type { Library } from "@/lib/types"
+import { useDebouncedTextFilter } from "@/hooks/use-debounced-value"
+
+export interface BookFilterValues {
+  title: string
+  author: string
+  libraryId: string
+  availableOnly: boolean
+}
+
+interface BookFiltersProps {
+  values: BookFilterValues
+  libraries: Library[]
+  onChange: (changes: Partial<BookFilterValues>) => void
+  onClear: () => void
+}
+
+export function BookFilters({ values, libraries, onChange, onClear }: BookFiltersProps) {
+  const [titleInput, setTitleInput] = useDebouncedTextFilter(values.title, (title) => onChange({ title }))
+  const [authorInput, setAuthorInput] = useDebouncedTextFilter(values.author, (author) => onChange({ author }))
+
+  const hasFilters = Boolean(titleInput.trim() || authorInput.trim() || values.libraryId || values.availableOnly)
+
+  // El texto pendiente de publicar también se descarta
+  const handleClear = () => {
+    setTitleInput("")
+    setAuthorInput("")
+    onClear()
+  }
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label htmlFor="book-search" className="block text-sm font-medium text-gray-700 mb-2">
+            Buscar por título
+          </label>
+          <input
+            type="search"
+            id="book-search"
+            value={titleInput}
+            onChange={(event) => setTitleInput(event.target.value)}
+            className={inputClassName}
+            placeholder="Ej. Ficciones"
+          />
+        </div>
+        <div>
+          <label htmlFor="book-author" className="block text-sm font-medium text-gray-700 mb-2">
+            Autor
+          </label>
+          <input
+            type="search"
+            id="book-author"
+            value={authorInput}
+            onChange={(event) => setAuthorInput(event.target.value)}
+            className={inputClassName}
+            placeholder="Ej. Borges"
+          />
+        </div>
+        <div>
+          <label htmlFor="book-library" className="block text-sm font-medium text-gray-700 mb-2">
+            Biblioteca
+          </label>
+          <select
+            id="book-library"
+            value={values.libraryId}
+            onChange={(event) => onChange({ libraryId: event.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Todas las bibliotecas</option>
+            {libraries.map((library) => (
+              <option key={library.id} value={library.id}>
+                {library.name}
+              </option>
+            ))}
+            {/* Un enlace compartido puede apuntar a una biblioteca que aún no se cargó o ya no existe */}
+            {values.libraryId && !libraries.some((library) => library.id === values.libraryId) && (
+              <option value={values.libraryId}>Biblioteca #{values.libraryId}</option>
+            )}
+          </select>
+        </div>
+        <div className="flex items-center justify-between gap-4 md:pb-2">
+          <label htmlFor="book-available" className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              id="book-available"
+              checked={values.availableOnly}
+              onChange={(event) => onChange({ availableOnly: event.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Solo disponibles
+          </label>
+          {hasFilters && (
+            <button type="button" onClick={handleClear} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+              Limpiar filtros
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
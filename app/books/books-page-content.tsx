@@ -0,0 +1,437 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { booksApi, librariesApi } from "@/lib/api"
+import { formatCopyAvailability, getCopyAvailability } from "@/lib/copies"
+import { downloadFile } from "@/lib/csv"
+import { BOOK_EXPORT_COLUMNS } from "@/lib/export"
+import { booksToMarcXml } from "@/lib/marc"
+import { fetchAllPages } from "@/lib/pagination"
+import { queryKeys } from "@/lib/query"
+import type { Book, BookQuery, BookSortField, Library } from "@/lib/types"
+import { ExportButtons } from "@/components/export-buttons"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Pagination } from "@/components/ui/pagination"
+import { SortableHeader } from "@/components/ui/sortable-header"
+import { usePermissions } from "@/hooks/use-permissions"
+import { usePaginationParams } from "@/hooks/use-pagination-params"
+import { useQuery } from "@/hooks/use-query"
+import { BookFilters, type BookFilterValues } from "./book-filters"
+
+const BOOK_SORT_FIELDS: readonly BookSortField[] = ["title", "author", "createdAt"]
+
+export function BooksPageContent() {
+  const router = useRouter()
+  const { can } = usePermissions()
+  const { page, limit, sort, order, setPage, toggleSort, searchParams, updateSearchParams } = usePaginationParams(
+    BOOK_SORT_FIELDS,
+    { sort: "title", order: "asc" },
+  )
+  // Los filtros viven en la URL para poder compartir enlaces como `/books?author=Borges&libraryId=3`
+  const filters: BookFilterValues = {
+    title: searchParams.get("title") ?? "",
+    author: searchParams.get("author") ?? "",
+    libraryId: searchParams.get("libraryId") ?? "",
+    availableOnly: searchParams.get("available") === "true",
+  }
+  const filterQuery: BookQuery = {
+    title: filters.title || undefined,
+    author: filters.author || undefined,
+    libraryId: filters.libraryId || undefined,
+    available: filters.availableOnly || undefined,
+  }
+  const hasFilters = Object.values(filterQuery).some((value) => value !== undefined)
+  const bookQuery = { ...filterQuery, page, limit, sort, order }
+  const booksQuery = useQuery(queryKeys.bookPage(bookQuery), (signal) => booksApi.getPage(bookQuery, { signal }))
+  // Totales de los libros filtrados para las estadísticas
+  const availableCountQuery = useQuery(queryKeys.bookPage({ ...filterQuery, available: true, limit: 1 }), (signal) =>
+    booksApi.getPage({ ...filterQuery, available: true, limit: 1 }, { signal }),
+  )
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  // Libros marcados para exportar en MARCXML; la selección se conserva al cambiar de página
+  const [selectedBooks, setSelectedBooks] = useState<Map<string, Book>>(new Map())
+
+  const librariesMap = useMemo(
+    () =>
+      (librariesQuery.data ?? []).reduce<Record<string, Library>>((acc, library) => {
+        acc[library.id] = library
+        return acc
+      }, {}),
+    [librariesQuery.data],
+  )
+
+  const books = useMemo(
+    () =>
+      (booksQuery.data?.items ?? []).map((book) => ({
+        ...book,
+        library: book.library ?? librariesMap[book.libraryId],
+      })),
+    [booksQuery.data, librariesMap],
+  )
+
+  const loadError = booksQuery.error ?? librariesQuery.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "Error al cargar los libros"
+  const error = actionError ?? (loadError ? loadErrorMessage : null)
+  const isLoading = booksQuery.isLoading || librariesQuery.isLoading || isDeleting
+
+  const totalPages = booksQuery.data?.totalPages ?? 1
+
+  useEffect(() => {
+    // Tras eliminar el último libro de la última página, vuelve a la última página existente
+    if (page > totalPages) {
+      setPage(totalPages)
+    }
+  }, [page, setPage, totalPages])
+
+  // Cualquier cambio de filtro vuelve a la primera página
+  const handleFiltersChange = ({ availableOnly, ...textChanges }: Partial<BookFilterValues>) => {
+    updateSearchParams({
+      ...textChanges,
+      ...(availableOnly !== undefined && { available: availableOnly }),
+      page: null,
+    })
+  }
+
+  const handleClearFilters = () => {
+    updateSearchParams({ title: null, author: null, libraryId: null, available: null, page: null })
+  }
+
+  // Se exportan todas las páginas con los filtros y el orden actuales
+  const loadBooksForExport = async () => {
+    const allBooks = await fetchAllPages((query: BookQuery) => booksApi.getPage(query), { ...filterQuery, sort, order })
+    return allBooks.map((book) => ({ ...book, library: book.library ?? librariesMap[book.libraryId] }))
+  }
+
+  const toggleBookSelection = (book: Book) => {
+    setSelectedBooks((previous) => {
+      const next = new Map(previous)
+      if (next.has(book.id)) {
+        next.delete(book.id)
+      } else {
+        next.set(book.id, book)
+      }
+      return next
+    })
+  }
+
+  const isPageSelected = books.length > 0 && books.every((book) => selectedBooks.has(book.id))
+
+  const togglePageSelection = () => {
+    setSelectedBooks((previous) => {
+      const next = new Map(previous)
+      books.forEach((book) => (isPageSelected ? next.delete(book.id) : next.set(book.id, book)))
+      return next
+    })
+  }
+
+  const handleExportMarc = () => {
+    const filename = `libros-${new Date().toISOString().slice(0, 10)}.xml`
+    downloadFile(filename, booksToMarcXml(Array.from(selectedBooks.values())), "application/marcxml+xml;charset=utf-8")
+  }
+
+  const handleEdit = (bookId: string) => {
+    router.push(`/books/${bookId}/edit`)
+  }
+
+  const handleDelete = async (bookId: string) => {
+    const bookToDelete = books.find((item) => item.id === bookId)
+    const confirmationMessage = bookToDelete
+      ? `¿Estás seguro de que deseas eliminar "${bookToDelete.title}"?`
+      : "¿Estás seguro de que deseas eliminar este libro?"
+
+    const confirmed = window.confirm(confirmationMessage)
+    if (!confirmed) {
+      return
+    }
+
+    setIsDeleting(true)
+    setActionError(null)
+
+    try {
+      // La caché de consultas se invalida tras la mutación y recarga el listado
+      await booksApi.delete(bookId)
+    } catch (err) {
+      console.error("Error deleting book:", err)
+
+      const message = err instanceof Error ? err.message : "Error al eliminar el libro"
+      setActionError(message)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const totalBooks = booksQuery.data?.total ?? 0
+  const availableBooksCount = availableCountQuery.data?.total ?? 0
+  const loanedBooksCount = Math.max(0, totalBooks - availableBooksCount)
+  const availabilityPercentage = totalBooks > 0 ? Math.round((availableBooksCount / totalBooks) * 100) : 0
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Gestión de Libros</h1>
+              <p className="text-gray-600 mt-2">
+                Administra el catálogo centralizado y revisa qué biblioteca aloja cada título
+              </p>
+            </div>
+            <div className="flex gap-4">
+              <Link
+                href="/"
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Volver al Inicio
+              </Link>
+              <Link
+                href="/libraries"
+                className="bg-purple-100 text-purple-700 px-4 py-2 rounded-md hover:bg-purple-200 transition-colors"
+              >
+                Ver Bibliotecas
+              </Link>
+              {can("books:write") && (
+                <Link
+                  href="/books/import"
+                  className="bg-blue-100 text-blue-700 px-4 py-2 rounded-md hover:bg-blue-200 transition-colors"
+                >
+                  Importar CSV o MARC
+                </Link>
+              )}
+              {can("books:write") && (
+                <Link
+                  href="/books/new"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Agregar Libro
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          <BookFilters
+            values={filters}
+            libraries={librariesQuery.data ?? []}
+            onChange={handleFiltersChange}
+            onClear={handleClearFilters}
+          />
+
+          {!isLoading && books.length > 0 && (
+            <div className="flex justify-end items-center gap-2 mb-4">
+              {selectedBooks.size > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSelectedBooks(new Map())}
+                  className="text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Quitar selección
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleExportMarc}
+                disabled={selectedBooks.size === 0}
+                title="Marca los libros que quieres exportar"
+                className="bg-white border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Exportar MARCXML ({selectedBooks.size})
+              </button>
+              <ExportButtons
+                baseName="libros"
+                columns={BOOK_EXPORT_COLUMNS}
+                loadItems={loadBooksForExport}
+                onError={setActionError}
+              />
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-blue-600" />
+            </div>
+          ) : books.length === 0 && hasFilters ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No se encontraron libros</h3>
+              <p className="text-gray-600 mb-4">Ningún título coincide con los filtros seleccionados</p>
+              <button
+                type="button"
+                onClick={handleClearFilters}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Limpiar filtros
+              </button>
+            </div>
+          ) : books.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <svg className="w-12 h-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.746 0 3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No hay libros registrados</h3>
+              {can("books:write") ? (
+                <>
+                  <p className="text-gray-600 mb-4">
+                    Comienza agregando el primer libro a alguna de tus bibliotecas activas
+                  </p>
+                  <Link
+                    href="/books/new"
+                    className="inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Agregar Primer Libro
+                  </Link>
+                </>
+              ) : (
+                <p className="text-gray-600">Un administrador debe publicar los primeros títulos del catálogo</p>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={isPageSelected}
+                          onChange={togglePageSelection}
+                          aria-label="Seleccionar los libros de esta página"
+                        />
+                      </th>
+                      <SortableHeader label="Título" field="title" sort={sort} order={order} onSort={toggleSort} />
+                      <SortableHeader label="Autor" field="author" sort={sort} order={order} onSort={toggleSort} />
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Biblioteca
+                      </th>
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Estado
+                      </th>
+                      <SortableHeader
+                        label="Agregado"
+                        field="createdAt"
+                        sort={sort}
+                        order={order}
+                        onSort={toggleSort}
+                      />
+                      <th scope="col" className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {books.map((book) => (
+                      <tr key={book.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedBooks.has(book.id)}
+                            onChange={() => toggleBookSelection(book)}
+                            aria-label={`Seleccionar "${book.title}"`}
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <Link href={`/books/${book.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                            {book.title}
+                          </Link>
+                          {book.isbn && <p className="text-gray-500 text-xs">ISBN: {book.isbn}</p>}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{book.author}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {book.library?.name ?? librariesMap[book.libraryId]?.name ?? "No especificada"}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              book.available ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                            }`}
+                          >
+                            {formatCopyAvailability(getCopyAvailability(book))}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-500">
+                          {book.createdAt ? new Date(book.createdAt).toLocaleDateString("es-ES") : "Fecha no disponible"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-xs">
+                          <div className="flex justify-end gap-2">
+                            {can("books:write") && (
+                              <button
+                                type="button"
+                                onClick={() => handleEdit(book.id)}
+                                className="text-blue-600 hover:text-blue-800 font-medium"
+                              >
+                                Editar
+                              </button>
+                            )}
+                            {can("books:delete") && (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  void handleDelete(book.id)
+                                }}
+                                className="text-red-600 hover:text-red-800 font-medium"
+                              >
+                                Eliminar
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <Pagination
+                page={page}
+                totalPages={totalPages}
+                total={totalBooks}
+                onPageChange={setPage}
+                disabled={booksQuery.isFetching}
+                className="px-4 py-3 border-t"
+              />
+            </div>
+          )}
+
+          {books.length > 0 && !isLoading && (
+            <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Estadísticas</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-600">{totalBooks}</div>
+                  <div className="text-sm text-gray-600">Total de Libros</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-green-600">{availableBooksCount}</div>
+                  <div className="text-sm text-gray-600">Disponibles</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-red-600">{loanedBooksCount}</div>
+                  <div className="text-sm text-gray-600">Prestados</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-purple-600">{availabilityPercentage}%</div>
+                  <div className="text-sm text-gray-600">Disponibilidad</div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
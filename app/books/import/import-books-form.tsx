@@ -0,0 +1,352 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { booksApi, librariesApi } from "@/lib/api"
+import {
+  BOOK_IMPORT_BATCH_SIZE,
+  BOOK_IMPORT_TEMPLATE,
+  buildBookImportErrorReport,
+  buildMarcImportPreview,
+  getBookImportIsbns,
+  isValidBookImportRow,
+  parseBookImportCsv,
+  type BookImportPreview,
+  type BookImportRow,
+} from "@/lib/book-import"
+import { downloadFile } from "@/lib/csv"
+import { parseMarcFile, type MarcRecord } from "@/lib/marc"
+import { batchInvalidations, queryKeys } from "@/lib/query"
+import type { Book } from "@/lib/types"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useQuery } from "@/hooks/use-query"
+
+interface ImportProgress {
+  processed: number
+  total: number
+  created: number
+}
+
+export function ImportBooksForm() {
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  // Solo los libros del catálogo con los ISBN del archivo, para marcar en la vista previa los ya registrados
+  const [existingBooks, setExistingBooks] = useState<Book[]>([])
+  const [isReadingFile, setIsReadingFile] = useState(false)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [preview, setPreview] = useState<BookImportPreview | null>(null)
+  // Los registros MARC no indican la biblioteca: se elige una para todo el archivo
+  const [marcRecords, setMarcRecords] = useState<MarcRecord[] | null>(null)
+  const [marcLibraryId, setMarcLibraryId] = useState("")
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  const [importedRowNumbers, setImportedRowNumbers] = useState<Set<number>>(new Set())
+  const [isImporting, setIsImporting] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const isLoading = librariesQuery.isLoading || isReadingFile
+  const loadError = librariesQuery.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "No se pudieron cargar las bibliotecas"
+  const error = actionError ?? (loadError ? loadErrorMessage : null)
+
+  const libraries = librariesQuery.data ?? []
+  const librariesById = new Map(libraries.map((library) => [library.id, library]))
+  const rows = preview?.rows ?? []
+  const validRows = rows.filter(isValidBookImportRow)
+  const invalidRows = rows.filter((row) => row.errors.length > 0)
+  const isFinished = progress !== null && !isImporting
+
+  const findExistingBooks = async (filePreview: BookImportPreview) => {
+    const isbns = getBookImportIsbns(filePreview.rows)
+    const books: Book[] = []
+
+    for (let start = 0; start < isbns.length; start += BOOK_IMPORT_BATCH_SIZE) {
+      const batch = isbns.slice(start, start + BOOK_IMPORT_BATCH_SIZE)
+      const results = await Promise.all(batch.map((isbn) => booksApi.findByIsbn(isbn)))
+      books.push(...results.flat())
+    }
+
+    return books
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setActionError(null)
+    setProgress(null)
+    setImportedRowNumbers(new Set())
+
+    if (!file) {
+      setFileName(null)
+      setPreview(null)
+      setMarcRecords(null)
+      return
+    }
+
+    try {
+      setFileName(file.name)
+      setIsReadingFile(true)
+
+      if (/\.(csv|txt)$/i.test(file.name)) {
+        const text = await file.text()
+        const books = await findExistingBooks(parseBookImportCsv(text, libraries, []))
+        setMarcRecords(null)
+        setExistingBooks(books)
+        setPreview(parseBookImportCsv(text, libraries, books))
+        return
+      }
+
+      const records = await parseMarcFile(file)
+      const libraryId = marcLibraryId || libraries[0]?.id || ""
+      const books = await findExistingBooks(buildMarcImportPreview(records, libraryId, libraries, []))
+      setMarcRecords(records)
+      setMarcLibraryId(libraryId)
+      setExistingBooks(books)
+      setPreview(buildMarcImportPreview(records, libraryId, libraries, books))
+    } catch (err) {
+      console.error("Error reading import file:", err)
+
+      setActionError(err instanceof Error ? err.message : "No se pudo leer el archivo")
+    } finally {
+      setIsReadingFile(false)
+      // Permite volver a elegir el mismo archivo después de corregirlo
+      e.target.value = ""
+    }
+  }
+
+  const handleMarcLibraryChange = (libraryId: string) => {
+    setMarcLibraryId(libraryId)
+    if (marcRecords) {
+      setPreview(buildMarcImportPreview(marcRecords, libraryId, libraries, existingBooks))
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview || validRows.length === 0) {
+      return
+    }
+
+    setIsImporting(true)
+    setActionError(null)
+    setProgress({ processed: 0, total: validRows.length, created: 0 })
+
+    const failures = new Map<number, string>()
+    const imported = new Set<number>()
+
+    // Los listados de libros y bibliotecas se vuelven a pedir una sola vez, al terminar la importación
+    await batchInvalidations(async () => {
+      for (let start = 0; start < validRows.length; start += BOOK_IMPORT_BATCH_SIZE) {
+        const batch = validRows.slice(start, start + BOOK_IMPORT_BATCH_SIZE)
+        const results = await Promise.allSettled(batch.map((row) => booksApi.create(row.book)))
+
+        results.forEach((result, index) => {
+          if (result.status === "fulfilled") {
+            imported.add(batch[index].rowNumber)
+            return
+          }
+
+          console.error("Error importing book:", result.reason)
+          failures.set(
+            batch[index].rowNumber,
+            result.reason instanceof Error ? result.reason.message : "Error al crear el libro",
+          )
+        })
+
+        setProgress({ processed: start + batch.length, total: validRows.length, created: imported.size })
+        setImportedRowNumbers(new Set(imported))
+      }
+    })
+
+    // Las filas que el backend rechazó pasan a tener error y entran en el informe
+    setPreview({
+      ...preview,
+      rows: preview.rows.map<BookImportRow>((row) => {
+        const failure = failures.get(row.rowNumber)
+        return failure ? { ...row, book: undefined, errors: [failure] } : row
+      }),
+    })
+    setIsImporting(false)
+  }
+
+  const handleDownloadReport = () => {
+    const baseName = fileName?.replace(/\.[^.]+$/, "") ?? "libros"
+    downloadFile(`${baseName}-errores.csv`, buildBookImportErrorReport(rows), "text/csv;charset=utf-8")
+  }
+
+  const previewHeadings = [marcRecords ? "Registro" : "Fila", "Título", "Autor", "ISBN", "Biblioteca", "Estado"]
+  // En MARC la columna guarda el id de la biblioteca elegida; en CSV, lo que venía en el archivo
+  const getRowLibraryName = (row: BookImportRow) =>
+    librariesById.get(row.book?.libraryId ?? row.values.library)?.name ?? (row.values.library || "—")
+  const progressPercent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+
+  return (
+    <div className="space-y-6">
+      {error && <ErrorMessage message={error} />}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">Archivo CSV o MARC</h2>
+        <p className="text-sm text-gray-600 mb-2">
+          CSV: una fila por libro con las columnas <code>title</code>, <code>author</code>, <code>isbn</code>{" "}
+          (opcional) y <code>library</code> (nombre de la biblioteca). Se aceptan comas o punto y coma como separador.
+        </p>
+        <p className="text-sm text-gray-600 mb-4">
+          MARC21 (<code>.mrc</code>) o MARCXML (<code>.xml</code>): se toman el título (245), el autor (100) y el ISBN
+          (020) de cada registro, y todos se agregan a la biblioteca que elijas.
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,text/csv,.mrc,.marc,.xml,application/marc,application/marcxml+xml"
+            onChange={handleFileChange}
+            disabled={isLoading || isImporting}
+            aria-label="Archivo CSV o MARC de libros"
+            className="text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          <button
+            type="button"
+            onClick={() => downloadFile("plantilla-libros.csv", BOOK_IMPORT_TEMPLATE, "text/csv;charset=utf-8")}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Descargar plantilla
+          </button>
+          {isLoading && <LoadingSpinner className="w-4 h-4 text-blue-600" />}
+        </div>
+        {marcRecords && (
+          <div className="mt-4 max-w-sm">
+            <label htmlFor="marc-library" className="block text-sm font-medium text-gray-700 mb-2">
+              Biblioteca de destino
+            </label>
+            <select
+              id="marc-library"
+              value={marcLibraryId}
+              onChange={(e) => handleMarcLibraryChange(e.target.value)}
+              disabled={isImporting || progress !== null}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {libraries.map((library) => (
+                <option key={library.id} value={library.id}>
+                  {library.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {preview?.fileError && <ErrorMessage message={preview.fileError} />}
+
+      {rows.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Vista previa</h2>
+              <p className="text-sm text-gray-600">
+                {fileName} · {validRows.length} filas válidas
+                {invalidRows.length > 0 && <span className="text-red-600"> · {invalidRows.length} con errores</span>}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {invalidRows.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleDownloadReport}
+                  disabled={isImporting}
+                  className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  Descargar informe de errores
+                </button>
+              )}
+              {!isFinished && (
+                <button
+                  type="button"
+                  onClick={() => void handleImport()}
+                  disabled={isImporting || validRows.length === 0}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isImporting ? "Importando..." : `Importar ${validRows.length} libros`}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {progress && (
+            <div className="mb-4">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>
+                  {isFinished
+                    ? `Importación terminada: ${progress.created} de ${progress.total} libros creados`
+                    : `Creando libros: ${progress.processed} de ${progress.total}`}
+                </span>
+                <span>{progressPercent}%</span>
+              </div>
+              <div
+                className="w-full bg-gray-200 rounded-full h-2"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={progressPercent}
+              >
+                <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${progressPercent}%` }} />
+              </div>
+              {isFinished && (
+                <Link href="/books" className="inline-block mt-3 text-sm text-blue-600 hover:text-blue-800 font-medium">
+                  Ver el catálogo
+                </Link>
+              )}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {previewHeadings.map((heading) => (
+                    <th
+                      key={heading}
+                      scope="col"
+                      className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map((row) => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                    <td className="px-4 py-3 text-sm text-gray-500">{row.rowNumber}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{row.values.title || "—"}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{row.values.author || "—"}</td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                      {row.book?.isbn ?? (row.values.isbn || "—")}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {getRowLibraryName(row)}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-xs text-red-600 space-y-1">
+                          {row.errors.map((rowError) => (
+                            <li key={rowError}>{rowError}</li>
+                          ))}
+                        </ul>
+                      ) : importedRowNumbers.has(row.rowNumber) ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Importado
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Listo
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import Link from "next/link"
+import { RequirePermission } from "@/components/require-permission"
+import { ImportBooksForm } from "./import-books-form"
+
+export default function ImportBooksPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-4">
+              <Link href="/books" className="text-gray-600 hover:text-gray-800 transition-colors">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">Importar Libros</h1>
+            </div>
+            <p className="text-gray-600">
+              Carga un CSV o registros MARC para agregar varios títulos a la vez. Revisa la vista previa antes de
+              importar
+            </p>
+          </div>
+
+          <RequirePermission permission="books:write">
+            <ImportBooksForm />
+          </RequirePermission>
+        </div>
+      </div>
+    </main>
+  )
+}
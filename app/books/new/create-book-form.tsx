@@ -6,14 +6,20 @@ import { useEffect, useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import { booksApi, librariesApi } from "@/lib/api"
 import type { CreateBookDto, Library } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
+import { findBookWithIsbn, getDuplicateIsbnError, parseIsbn } from "@/lib/isbn"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const BOOK_FORM_FIELDS = ["title", "author", "isbn", "libraryId"] as const
+
 export function CreateBookForm() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof BOOK_FORM_FIELDS)[number]>>({})
   const [libraries, setLibraries] = useState<Library[]>([])
   const [isLoadingLibraries, setIsLoadingLibraries] = useState(true)
   const [formData, setFormData] = useState<CreateBookDto>({
@@ -68,28 +74,59 @@ export function CreateBookForm() {
       ...prev,
       [name]: value,
     }))
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }))
+  }
+
+  // Muestra el ISBN ya convertido a ISBN-13 en cuanto el usuario sale del campo
+  const handleIsbnBlur = () => {
+    const value = formData.isbn?.trim()
+    if (!value) return
+
+    const { isbn, error: isbnError } = parseIsbn(value)
+    if (isbn) {
+      setFormData((prev) => ({ ...prev, isbn }))
+    }
+    setFieldErrors((prev) => ({ ...prev, isbn: isbnError }))
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
     setError(null)
+    setFieldErrors({})
 
     try {
+      const parsedIsbn = formData.isbn?.trim() ? parseIsbn(formData.isbn) : null
+      if (parsedIsbn?.error) {
+        setFieldErrors({ isbn: parsedIsbn.error })
+        return
+      }
+
+      if (parsedIsbn?.isbn) {
+        const libraryBooks = await booksApi.findByIsbn(parsedIsbn.isbn, { libraryId: formData.libraryId })
+        const duplicate = findBookWithIsbn(libraryBooks, parsedIsbn.isbn, formData.libraryId)
+        if (duplicate) {
+          setFieldErrors({ isbn: getDuplicateIsbnError(duplicate) })
+          return
+        }
+      }
+
       // Clean up the data before sending
       const dataToSend = {
         title: formData.title.trim(),
         author: formData.author.trim(),
-        ...(formData.isbn?.trim() && { isbn: formData.isbn.trim() }),
+        ...(parsedIsbn?.isbn && { isbn: parsedIsbn.isbn }),
         libraryId: formData.libraryId,
       }
 
       await booksApi.create(dataToSend)
       router.push("/books")
       router.refresh()
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error creating book:", err)
-      setError(err.message || "Error al crear el libro")
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(err, BOOK_FORM_FIELDS, "Error al crear el libro")
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsLoading(false)
     }
@@ -115,10 +152,11 @@ export function CreateBookForm() {
           value={formData.title}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.title ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
           placeholder="Ingresa el título del libro"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.title} />
       </div>
 
       {/* Author Field */}
@@ -133,10 +171,11 @@ export function CreateBookForm() {
           value={formData.author}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.author ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
           placeholder="Ingresa el nombre del autor"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.author} />
       </div>
 
       {/* ISBN Field */}
@@ -150,10 +189,12 @@ export function CreateBookForm() {
           name="isbn"
           value={formData.isbn}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-          placeholder="Ingresa el ISBN del libro"
+          onBlur={handleIsbnBlur}
+          className={`w-full px-3 py-2 border ${fieldErrors.isbn ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+          placeholder="ISBN-10 o ISBN-13, con o sin guiones"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.isbn} />
       </div>
 
       {/* Library Field */}
@@ -172,7 +213,7 @@ export function CreateBookForm() {
             value={formData.libraryId}
             onChange={handleInputChange}
             required
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            className={`w-full px-3 py-2 border ${fieldErrors.libraryId ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
             disabled={isLoading}
           >
             {libraries.map((library) => (
@@ -186,6 +227,7 @@ export function CreateBookForm() {
             No hay bibliotecas registradas. Crea una biblioteca para poder asociar el libro.
           </p>
         )}
+        <FieldError message={fieldErrors.libraryId} />
       </div>
 
       {/* Form Actions */}
@@ -1,6 +1,7 @@
 import { Suspense } from "react"
 import Link from "next/link"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { RequirePermission } from "@/components/require-permission"
 import { CreateBookForm } from "./create-book-form"
 
 export default function NewBookPage() {
@@ -30,7 +31,9 @@ export default function NewBookPage() {
                 </div>
               }
             >
-              <CreateBookForm />
+              <RequirePermission permission="books:write">
+                <CreateBookForm />
+              </RequirePermission>
             </Suspense>
           </div>
         </div>
@@ -0,0 +1,319 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { booksApi, holdsApi, loansApi, membersApi } from "@/lib/api"
+import {
+  HOLD_STATUS_LABELS,
+  compareHoldsByQueue,
+  getHoldPickupDeadline,
+  getHoldPickupLibraryId,
+  getHoldQueuePosition,
+  isHoldActive,
+  isHoldPickupExpired,
+} from "@/lib/holds"
+import { formatLoanDate } from "@/lib/loans"
+import { queryKeys } from "@/lib/query"
+import type { Hold, HoldStatus } from "@/lib/types"
+import { PlaceHoldForm } from "@/components/place-hold-form"
+import { RequirePermission } from "@/components/require-permission"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useExpireOverduePickups } from "@/hooks/use-expire-overdue-pickups"
+import { useQuery } from "@/hooks/use-query"
+import { useSearchParamsState } from "@/hooks/use-search-params-state"
+
+const STATUS_OPTIONS = Object.entries(HOLD_STATUS_LABELS) as [HoldStatus, string][]
+
+const isHoldStatus = (value: string | null): value is HoldStatus =>
+  STATUS_OPTIONS.some(([status]) => status === value)
+
+const STATUS_BADGE_CLASSES: Record<HoldStatus, string> = {
+  waiting: "bg-yellow-100 text-yellow-800",
+  ready: "bg-green-100 text-green-800",
+  fulfilled: "bg-blue-100 text-blue-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  expired: "bg-gray-100 text-gray-800",
+}
+
+export function HoldsPageContent() {
+  const { can } = usePermissions()
+  const { searchParams, updateSearchParams } = useSearchParamsState()
+  const requestedStatus = searchParams.get("status")
+  // Sin estado se muestran las reservas activas: en espera y listas para recoger
+  const statusFilter = isHoldStatus(requestedStatus) ? requestedStatus : undefined
+  const preselectedBookId = searchParams.get("bookId") ?? undefined
+
+  const holdsQuery = useQuery(queryKeys.holds(), (signal) => holdsApi.getAll({}, { signal }))
+  const booksQuery = useQuery(queryKeys.books(), (signal) => booksApi.getAll({}, { signal }))
+  const membersQuery = useQuery(queryKeys.members(), (signal) => membersApi.getAll({ signal }))
+  const activeLoansQuery = useQuery(queryKeys.loans({ activeOnly: true }), (signal) =>
+    loansApi.getAll({ activeOnly: true }, { signal }),
+  )
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [updatingHoldId, setUpdatingHoldId] = useState<string | null>(null)
+
+  const books = useMemo(() => booksQuery.data ?? [], [booksQuery.data])
+  const members = membersQuery.data ?? []
+
+  const holds = useMemo(() => {
+    const booksById = new Map(books.map((book) => [book.id, book]))
+    const membersById = new Map((membersQuery.data ?? []).map((member) => [member.id, member]))
+
+    return (holdsQuery.data ?? []).map((hold) => ({
+      ...hold,
+      book: hold.book ?? booksById.get(hold.bookId),
+      member: hold.member ?? membersById.get(hold.memberId),
+    }))
+  }, [books, holdsQuery.data, membersQuery.data])
+
+  const now = new Date()
+  const activeHolds = holds.filter(isHoldActive)
+  const readyHolds = activeHolds.filter((hold) => hold.status === "ready")
+  const expiredPickups = readyHolds.filter((hold) => isHoldPickupExpired(hold, now))
+  const visibleHolds = holds
+    .filter((hold) => (statusFilter ? hold.status === statusFilter : isHoldActive(hold)))
+    .sort(
+      (left, right) =>
+        (left.book?.title ?? "").localeCompare(right.book?.title ?? "", "es") || compareHoldsByQueue(left, right),
+    )
+  // Solo se reservan libros prestados; los disponibles se prestan directamente
+  const borrowedBooks = books.filter((book) => !book.available)
+
+  // Las reservas sin recoger a tiempo se liberan solas al abrir la página
+  const expiration = useExpireOverduePickups(holds, can("holds:manage") && !booksQuery.isLoading)
+
+  const queries = [holdsQuery, booksQuery, membersQuery, activeLoansQuery]
+  const isLoading = holdsQuery.isLoading || booksQuery.isLoading || membersQuery.isLoading
+  const loadError = queries.find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "Error al cargar las reservas"
+  const error = actionError ?? expiration.error ?? (loadError ? loadErrorMessage : null)
+
+  const runHoldAction = async (holdId: string, action: () => Promise<unknown>, fallbackMessage: string) => {
+    setUpdatingHoldId(holdId)
+    setActionError(null)
+
+    try {
+      // La caché se invalida tras cada mutación y recarga la cola
+      await action()
+    } catch (err) {
+      console.error("Error updating hold:", err)
+
+      setActionError(err instanceof Error ? err.message : fallbackMessage)
+    } finally {
+      setUpdatingHoldId(null)
+    }
+  }
+
+  const handleCancelHold = (hold: Hold) => {
+    if (!window.confirm(`¿Cancelar la reserva de ${hold.member?.name ?? "este miembro"}?`)) {
+      return
+    }
+
+    void runHoldAction(hold.id, () => holdsApi.cancel(hold.id, hold.bookId), "Error al cancelar la reserva")
+  }
+
+  const selectClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Reservas</h1>
+              <p className="text-gray-600 mt-2">
+                Cola de espera de los libros prestados: al devolverse, el libro queda apartado para la primera reserva
+              </p>
+            </div>
+            <Link
+              href="/loans"
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Volver a Préstamos
+            </Link>
+          </div>
+
+          <RequirePermission permission="holds:manage">
+            {error && <ErrorMessage message={error} className="mb-6" />}
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner className="w-8 h-8 text-purple-600" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                  <div className="bg-white rounded-lg shadow-md p-4">
+                    <div className="text-2xl font-bold text-yellow-600">{activeHolds.length - readyHolds.length}</div>
+                    <div className="text-sm text-gray-600">En espera</div>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-md p-4">
+                    <div className="text-2xl font-bold text-green-600">{readyHolds.length}</div>
+                    <div className="text-sm text-gray-600">Listas para recoger</div>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-md p-4">
+                    <div className="text-2xl font-bold text-red-600">{expiredPickups.length}</div>
+                    <div className="text-sm text-gray-600">Sin recoger a tiempo</div>
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Nueva reserva</h2>
+                  <PlaceHoldForm
+                    books={borrowedBooks}
+                    members={members}
+                    holds={activeHolds}
+                    activeLoans={activeLoansQuery.data}
+                    initialBookId={preselectedBookId}
+                  />
+                </div>
+
+                <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-4">
+                  <div className="w-full md:w-64">
+                    <label htmlFor="holds-status" className="block text-sm font-medium text-gray-700 mb-2">
+                      Estado
+                    </label>
+                    <select
+                      id="holds-status"
+                      value={statusFilter ?? ""}
+                      onChange={(event) => updateSearchParams({ status: event.target.value })}
+                      className={selectClassName}
+                    >
+                      <option value="">Activas</option>
+                      {STATUS_OPTIONS.map(([status, label]) => (
+                        <option key={status} value={status}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {expiration.isExpiring && (
+                    <p className="text-sm text-gray-500">Liberando reservas sin recoger a tiempo...</p>
+                  )}
+                </div>
+
+                {visibleHolds.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    {statusFilter ? "No hay reservas con este estado" : "No hay reservas activas"}
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Libro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Miembro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Estado
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Reservada
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Recoger antes de
+                            </th>
+                            <th scope="col" className="px-4 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {visibleHolds.map((hold) => {
+                            const position = getHoldQueuePosition(activeHolds, hold)
+                            const deadline = getHoldPickupDeadline(hold)
+                            const isPickupExpired = isHoldPickupExpired(hold, now)
+
+                            return (
+                              <tr key={hold.id} className="hover:bg-gray-50">
+                                <td className="px-4 py-3">
+                                  <Link
+                                    href={`/books/${hold.bookId}`}
+                                    className="font-medium text-gray-900 hover:text-blue-600"
+                                  >
+                                    {hold.book?.title || "Libro no encontrado"}
+                                  </Link>
+                                  <p className="text-xs text-gray-500">{hold.book?.author || "Autor desconocido"}</p>
+                                </td>
+                                <td className="px-4 py-3 text-sm">
+                                  <Link
+                                    href={`/members/${hold.memberId}`}
+                                    className="text-gray-600 hover:text-green-600"
+                                  >
+                                    {hold.member?.name || "Miembro no encontrado"}
+                                  </Link>
+                                </td>
+                                <td className="px-4 py-3 text-sm">
+                                  <span
+                                    className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                      isPickupExpired ? "bg-red-100 text-red-800" : STATUS_BADGE_CLASSES[hold.status]
+                                    }`}
+                                  >
+                                    {isPickupExpired ? "Plazo vencido" : HOLD_STATUS_LABELS[hold.status]}
+                                  </span>
+                                  {position !== null && (
+                                    <span className="ml-2 text-xs text-gray-500">n.º {position} en la cola</span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-500">
+                                  {formatLoanDate(hold.createdAt) ?? "Fecha no disponible"}
+                                </td>
+                                <td className={`px-4 py-3 text-sm ${isPickupExpired ? "text-red-600" : "text-gray-500"}`}>
+                                  {deadline?.toLocaleDateString("es-ES") ?? "—"}
+                                </td>
+                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                  {hold.status === "ready" && can("loans:create") && (
+                                    <Link
+                                      href={`/loans?libraryId=${encodeURIComponent(getHoldPickupLibraryId(hold) ?? "")}&bookId=${encodeURIComponent(hold.bookId)}&memberId=${encodeURIComponent(hold.memberId)}`}
+                                      className="mr-2 bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors text-sm"
+                                    >
+                                      Prestar
+                                    </Link>
+                                  )}
+                                  {isHoldActive(hold) && (
+                                    <button
+                                      type="button"
+                                      onClick={() => handleCancelHold(hold)}
+                                      disabled={updatingHoldId !== null}
+                                      className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      {updatingHoldId === hold.id ? "Cancelando..." : "Cancelar"}
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </RequirePermission>
+        </div>
+      </div>
+    </main>
+  )
+}
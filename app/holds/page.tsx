@@ -0,0 +1,19 @@
+import { Suspense } from "react"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { HoldsPageContent } from "./holds-page-content"
+
+function HoldsPageFallback() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner className="w-8 h-8 text-purple-600" />
+    </div>
+  )
+}
+
+export default function HoldsPage() {
+  return (
+    <Suspense fallback={<HoldsPageFallback />}>
+      <HoldsPageContent />
+    </Suspense>
+  )
+}
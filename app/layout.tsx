@@ -1,6 +1,9 @@
 import type { Metadata } from 'next'
 import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
+import { AppHeader } from '@/components/app-header'
+import { AuthSessionHandler } from '@/components/auth-session-handler'
+import { SessionExpiryWarning } from '@/components/session-expiry-warning'
 import './globals.css'
 
 export const metadata: Metadata = {
@@ -17,6 +20,9 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`font-sans ${GeistSans.variable} ${GeistMono.variable}`}>
+        <AuthSessionHandler />
+        <SessionExpiryWarning />
+        <AppHeader />
         {children}
       </body>
     </html>
@@ -4,11 +4,15 @@ import type React from "react"
 
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { librariesApi, ApiError, authApi } from "@/lib/api"
+import { librariesApi } from "@/lib/api"
 import type { CreateLibraryDto, Library } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const LIBRARY_FORM_FIELDS = ["name", "address", "openingHours"] as const
+
 interface EditLibraryFormProps {
   libraryId: string
 }
@@ -24,6 +28,7 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof LIBRARY_FORM_FIELDS)[number]>>({})
 
   useEffect(() => {
     let isActive = true
@@ -47,13 +52,6 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
 
         console.error("Error loading library:", err)
 
-        if (err instanceof ApiError && err.statusCode === 401) {
-          authApi.clearToken()
-          setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-          router.replace("/auth/login")
-          return
-        }
-
         const message = err instanceof Error ? err.message : "No se pudo cargar la biblioteca"
         setError(message)
       } finally {
@@ -68,7 +66,7 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
     return () => {
       isActive = false
     }
-  }, [libraryId, router])
+  }, [libraryId])
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target
@@ -76,6 +74,7 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
       ...previous,
       [name]: value,
     }))
+    setFieldErrors((previous) => ({ ...previous, [name]: undefined }))
   }
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -87,6 +86,7 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
 
     setIsSaving(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       const trimmedName = formData.name.trim()
@@ -123,15 +123,13 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
     } catch (err) {
       console.error("Error updating library:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
-
-      const message = err instanceof Error ? err.message : "Error al actualizar la biblioteca"
-      setError(message)
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(
+        err,
+        LIBRARY_FORM_FIELDS,
+        "Error al actualizar la biblioteca",
+      )
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsSaving(false)
     }
@@ -169,10 +167,11 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
           required
           value={formData.name}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.name ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ingresa el nombre de la biblioteca"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.name} />
       </div>
       <div>
         <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
@@ -185,10 +184,11 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
           required
           value={formData.address}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.address ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ingresa la dirección completa"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.address} />
       </div>
 
       <div>
@@ -202,10 +202,11 @@ export function EditLibraryForm({ libraryId }: EditLibraryFormProps) {
           required
           value={formData.openingHours}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.openingHours ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ej. Lunes a viernes de 9:00 a 18:00"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.openingHours} />
       </div>
 
       <div className="flex gap-4 pt-4">
@@ -2,6 +2,7 @@ import { Suspense } from "react"
 import Link from "next/link"
 import { notFound } from "next/navigation"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { RequirePermission } from "@/components/require-permission"
 import { EditLibraryForm } from "./edit-library-form"
 
 interface EditLibraryPageProps {
@@ -41,7 +42,9 @@ export default function EditLibraryPage({ params }: EditLibraryPageProps) {
                 </div>
               }
             >
-              <EditLibraryForm libraryId={libraryId} />
+              <RequirePermission permission="libraries:write">
+                <EditLibraryForm libraryId={libraryId} />
+              </RequirePermission>
             </Suspense>
           </div>
         </div>
@@ -0,0 +1,342 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import Link from "next/link"
+import { booksApi, librariesApi, loansApi, membersApi } from "@/lib/api"
+import { formatCopyAvailability, getCopyAvailability } from "@/lib/copies"
+import { formatLoanDate, formatLoanDueDate, isLoanOverdue } from "@/lib/loans"
+import { queryKeys } from "@/lib/query"
+import type { BookQuery, BookSortField, LoanQuery } from "@/lib/types"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Pagination } from "@/components/ui/pagination"
+import { SortableHeader } from "@/components/ui/sortable-header"
+import { useDebouncedTextFilter } from "@/hooks/use-debounced-value"
+import { usePermissions } from "@/hooks/use-permissions"
+import { usePaginationParams } from "@/hooks/use-pagination-params"
+import { useQuery } from "@/hooks/use-query"
+
+const BOOK_SORT_FIELDS: readonly BookSortField[] = ["title", "author", "createdAt"]
+
+interface LibraryDetailProps {
+  libraryId: string
+}
+
+export function LibraryDetail({ libraryId }: LibraryDetailProps) {
+  const { can } = usePermissions()
+  const { page, limit, sort, order, setPage, toggleSort, searchParams, updateSearchParams } = usePaginationParams(
+    BOOK_SORT_FIELDS,
+    { sort: "title", order: "asc" },
+  )
+  const search = searchParams.get("title") ?? ""
+  const [searchInput, setSearchInput] = useDebouncedTextFilter(search, (title) =>
+    updateSearchParams({ title, page: null }),
+  )
+
+  const catalogQuery: BookQuery = { libraryId, title: search || undefined, page, limit, sort, order }
+  const activeLoansQuery: LoanQuery = { libraryId, activeOnly: true }
+  const libraryQuery = useQuery(queryKeys.library(libraryId), (signal) => librariesApi.getById(libraryId, { signal }))
+  const catalogPageQuery = useQuery(queryKeys.bookPage(catalogQuery), (signal) =>
+    booksApi.getPage(catalogQuery, { signal }),
+  )
+  // Totales de la biblioteca completa, independientes de la búsqueda
+  const totalBooksQuery = useQuery(queryKeys.bookPage({ libraryId, limit: 1 }), (signal) =>
+    booksApi.getPage({ libraryId, limit: 1 }, { signal }),
+  )
+  const availableBooksQuery = useQuery(queryKeys.bookPage({ libraryId, available: true, limit: 1 }), (signal) =>
+    booksApi.getPage({ libraryId, available: true, limit: 1 }, { signal }),
+  )
+  const loansQuery = useQuery(queryKeys.loans(activeLoansQuery), (signal) =>
+    loansApi.getAll(activeLoansQuery, { signal }),
+  )
+  // Para saber a qué biblioteca pertenece cada préstamo y a quién se prestó si el backend no lo incluye
+  const libraryBooksQuery = useQuery(queryKeys.books({ libraryId }), (signal) =>
+    booksApi.getAll({ libraryId }, { signal }),
+  )
+  const membersQuery = useQuery(queryKeys.members(), (signal) => membersApi.getAll({ signal }))
+
+  const library = libraryQuery.data
+  const books = catalogPageQuery.data?.items ?? []
+  const totalPages = catalogPageQuery.data?.totalPages ?? 1
+
+  const activeLoans = useMemo(() => {
+    const booksById = new Map((libraryBooksQuery.data ?? []).map((book) => [book.id, book]))
+    const membersById = new Map((membersQuery.data ?? []).map((member) => [member.id, member]))
+
+    return (loansQuery.data ?? []).flatMap((loan) => {
+      const book = loan.book ?? booksById.get(loan.bookId)
+      // El ejemplar prestado indica la biblioteca real; el libro solo la de su registro
+      const loanLibraryId = loan.library?.id ?? loan.copy?.libraryId ?? book?.libraryId
+      if (loan.isReturned || loanLibraryId !== libraryId) {
+        return []
+      }
+
+      return [{ ...loan, book, member: loan.member ?? membersById.get(loan.memberId) }]
+    })
+  }, [libraryBooksQuery.data, libraryId, loansQuery.data, membersQuery.data])
+
+  const queries = [
+    libraryQuery,
+    catalogPageQuery,
+    totalBooksQuery,
+    availableBooksQuery,
+    loansQuery,
+    libraryBooksQuery,
+    membersQuery,
+  ]
+  const loadError = queries.find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "No se pudo cargar la biblioteca"
+  const error = loadError ? loadErrorMessage : null
+  const isLoading = libraryQuery.isLoading
+
+  useEffect(() => {
+    if (page > totalPages) {
+      setPage(totalPages)
+    }
+  }, [page, setPage, totalPages])
+
+  const totalBooks = totalBooksQuery.data?.total ?? 0
+  const availableBooksCount = availableBooksQuery.data?.total ?? 0
+  const availabilityPercentage = totalBooks > 0 ? Math.round((availableBooksCount / totalBooks) * 100) : 0
+  const now = new Date()
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+            <div className="flex items-start gap-4">
+              <Link href="/libraries" className="text-gray-600 hover:text-gray-800 transition-colors mt-1">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </Link>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{library?.name ?? "Biblioteca"}</h1>
+                {library && (
+                  <>
+                    <p className="text-sm text-gray-500 mt-1">{library.address || "Dirección no registrada"}</p>
+                    <p className="text-xs text-gray-500 mt-1">Horario: {library.openingHours || "No registrado"}</p>
+                  </>
+                )}
+              </div>
+            </div>
+            {library && (
+              <div className="flex flex-wrap gap-3">
+                {can("loans:create") && (
+                  <Link
+                    href={`/loans?libraryId=${library.id}`}
+                    className="inline-flex items-center bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
+                  >
+                    Iniciar préstamo aquí
+                  </Link>
+                )}
+                {can("books:write") && (
+                  <Link
+                    href={`/books/new?libraryId=${library.id}`}
+                    className="inline-flex items-center bg-blue-100 text-blue-700 px-4 py-2 rounded-md hover:bg-blue-200 transition-colors"
+                  >
+                    Agregar libro a esta biblioteca
+                  </Link>
+                )}
+                {can("libraries:write") && (
+                  <Link
+                    href={`/libraries/${library.id}/edit`}
+                    className="inline-flex items-center bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+                  >
+                    Editar
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-blue-600" />
+            </div>
+          ) : !library ? (
+            !error && <ErrorMessage message="Biblioteca no encontrada" />
+          ) : (
+            <div className="space-y-8">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-blue-600">{totalBooks}</div>
+                  <div className="text-sm text-gray-600">Libros en catálogo</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-green-600">{availableBooksCount}</div>
+                  <div className="text-sm text-gray-600">Disponibles</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-red-600">{activeLoans.length}</div>
+                  <div className="text-sm text-gray-600">Préstamos activos</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-purple-600">{availabilityPercentage}%</div>
+                  <div className="text-sm text-gray-600">Disponibilidad</div>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Catálogo</h2>
+                  <label htmlFor="library-catalog-search" className="sr-only">
+                    Buscar en el catálogo
+                  </label>
+                  <input
+                    type="search"
+                    id="library-catalog-search"
+                    value={searchInput}
+                    onChange={(event) => setSearchInput(event.target.value)}
+                    className="w-full md:w-72 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Buscar por título"
+                  />
+                </div>
+
+                {catalogPageQuery.isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <LoadingSpinner className="w-6 h-6 text-blue-600" />
+                  </div>
+                ) : books.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    {search
+                      ? "Ningún título de esta biblioteca coincide con la búsqueda"
+                      : "Esta biblioteca aún no ha publicado libros. Agrega un título para que los miembros puedan solicitarlo."}
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <SortableHeader
+                              label="Título"
+                              field="title"
+                              sort={sort}
+                              order={order}
+                              onSort={toggleSort}
+                            />
+                            <SortableHeader
+                              label="Autor"
+                              field="author"
+                              sort={sort}
+                              order={order}
+                              onSort={toggleSort}
+                            />
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Estado
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {books.map((book) => (
+                            <tr key={book.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3">
+                                <Link
+                                  href={`/books/${book.id}`}
+                                  className="font-medium text-gray-900 hover:text-blue-600"
+                                >
+                                  {book.title}
+                                </Link>
+                                {book.isbn && <p className="text-gray-500 text-xs">ISBN: {book.isbn}</p>}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600">{book.author}</td>
+                              <td className="px-4 py-3">
+                                <span
+                                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                    getCopyAvailability(book, libraryId).available > 0
+                                      ? "bg-green-100 text-green-800"
+                                      : "bg-red-100 text-red-800"
+                                  }`}
+                                >
+                                  {formatCopyAvailability(getCopyAvailability(book, libraryId))}
+                                </span>
+                                {!book.available && can("holds:manage") && (
+                                  <Link
+                                    href={`/holds?bookId=${encodeURIComponent(book.id)}`}
+                                    className="ml-3 text-sm text-purple-600 hover:text-purple-800 font-medium"
+                                  >
+                                    Reservar
+                                  </Link>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      total={catalogPageQuery.data?.total ?? 0}
+                      onPageChange={setPage}
+                      disabled={catalogPageQuery.isFetching}
+                      className="px-4 py-3 border-t"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Préstamos activos</h2>
+                {loansQuery.isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <LoadingSpinner className="w-6 h-6 text-purple-600" />
+                  </div>
+                ) : activeLoans.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    No hay libros de esta biblioteca en préstamo
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+                    {activeLoans.map((loan) => {
+                      const isOverdue = isLoanOverdue(loan, now)
+
+                      return (
+                        <div
+                          key={loan.id}
+                          className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4"
+                        >
+                          <div>
+                            <Link
+                              href={`/books/${loan.bookId}`}
+                              className="font-medium text-gray-900 hover:text-blue-600"
+                            >
+                              {loan.book?.title || "Libro no encontrado"}
+                            </Link>
+                            <p className="text-sm text-gray-600">
+                              <Link href={`/members/${loan.memberId}`} className="hover:text-green-600">
+                                {loan.member?.name || "Miembro no encontrado"}
+                              </Link>
+                              {" · "}Prestado: {formatLoanDate(loan.loanDate) ?? "Fecha no disponible"}
+                            </p>
+                          </div>
+                          <div className="text-sm">
+                            <span className="text-gray-500">{formatLoanDueDate(loan) ?? "Sin fecha"}</span>
+                            <span
+                              className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${
+                                isOverdue ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                              }`}
+                            >
+                              {isOverdue ? "Vencido" : "Activo"}
+                            </span>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
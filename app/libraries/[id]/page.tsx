@@ -0,0 +1,30 @@
+import { Suspense } from "react"
+import { notFound } from "next/navigation"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { LibraryDetail } from "./library-detail"
+
+interface LibraryDetailPageProps {
+  params: { id?: string }
+}
+
+function LibraryDetailFallback() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner className="w-8 h-8 text-blue-600" />
+    </div>
+  )
+}
+
+export default function LibraryDetailPage({ params }: LibraryDetailPageProps) {
+  const libraryId = params.id
+
+  if (!libraryId) {
+    notFound()
+  }
+
+  return (
+    <Suspense fallback={<LibraryDetailFallback />}>
+      <LibraryDetail libraryId={libraryId} />
+    </Suspense>
+  )
+}
@@ -4,15 +4,20 @@ import type React from "react"
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { librariesApi, ApiError, authApi } from "@/lib/api"
+import { librariesApi } from "@/lib/api"
 import type { CreateLibraryDto } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const LIBRARY_FORM_FIELDS = ["name", "address", "openingHours"] as const
+
 export function CreateLibraryForm() {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof LIBRARY_FORM_FIELDS)[number]>>({})
   const [formData, setFormData] = useState<CreateLibraryDto>({
     name: "",
     address: "",
@@ -25,6 +30,7 @@ export function CreateLibraryForm() {
       ...previous,
       [name]: value,
     }))
+    setFieldErrors((previous) => ({ ...previous, [name]: undefined }))
   }
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -36,6 +42,7 @@ export function CreateLibraryForm() {
 
     setIsSubmitting(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       const trimmedName = formData.name.trim()
@@ -72,15 +79,13 @@ export function CreateLibraryForm() {
     } catch (err) {
       console.error("Error creating library:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
-
-      const message = err instanceof Error ? err.message : "Error al crear la biblioteca"
-      setError(message)
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(
+        err,
+        LIBRARY_FORM_FIELDS,
+        "Error al crear la biblioteca",
+      )
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsSubmitting(false)
     }
@@ -106,10 +111,11 @@ export function CreateLibraryForm() {
           required
           value={formData.name}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.name ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ingresa el nombre de la biblioteca"
           disabled={isSubmitting}
         />
+        <FieldError message={fieldErrors.name} />
       </div>
       <div>
         <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
@@ -122,10 +128,11 @@ export function CreateLibraryForm() {
           required
           value={formData.address}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.address ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ingresa la dirección completa"
           disabled={isSubmitting}
         />
+        <FieldError message={fieldErrors.address} />
       </div>
 
       <div>
@@ -139,10 +146,11 @@ export function CreateLibraryForm() {
           required
           value={formData.openingHours}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.openingHours ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500`}
           placeholder="Ej. Lunes a viernes de 9:00 a 18:00"
           disabled={isSubmitting}
         />
+        <FieldError message={fieldErrors.openingHours} />
       </div>
 
       <div className="flex gap-4 pt-4">
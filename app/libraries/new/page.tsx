@@ -1,6 +1,7 @@
 import { Suspense } from "react"
 import Link from "next/link"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { RequirePermission } from "@/components/require-permission"
 import { CreateLibraryForm } from "./create-library-form"
 
 export default function NewLibraryPage() {
@@ -30,7 +31,9 @@ export default function NewLibraryPage() {
                 </div>
               }
             >
-              <CreateLibraryForm />
+              <RequirePermission permission="libraries:write">
+                <CreateLibraryForm />
+              </RequirePermission>
             </Suspense>
           </div>
         </div>
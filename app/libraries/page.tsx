@@ -1,63 +1,27 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useState } from "react"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
-import { librariesApi, ApiError, authApi } from "@/lib/api"
-import type { Library } from "@/lib/types"
+import { librariesApi } from "@/lib/api"
+import { LIBRARY_EXPORT_COLUMNS } from "@/lib/export"
+import { queryKeys } from "@/lib/query"
+import { ExportButtons } from "@/components/export-buttons"
 import { ErrorMessage } from "@/components/ui/error-message"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useQuery } from "@/hooks/use-query"
 
 export default function LibrariesPage() {
-  const router = useRouter()
-  const [libraries, setLibraries] = useState<Library[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { can } = usePermissions()
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
   const [actionError, setActionError] = useState<string | null>(null)
   const [deletingLibraryId, setDeletingLibraryId] = useState<string | null>(null)
 
-  useEffect(() => {
-    let isActive = true
-
-    const loadLibraries = async () => {
-      setIsLoading(true)
-      setError(null)
-      setActionError(null)
-
-      try {
-        const response = await librariesApi.getAll()
-        if (!isActive) return
-
-        setLibraries(response)
-      } catch (err) {
-        if (!isActive) return
-
-        console.error("Error fetching libraries:", err)
-
-        if (err instanceof ApiError && err.statusCode === 401) {
-          authApi.clearToken()
-          setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-          router.replace("/auth/login")
-          setLibraries([])
-          return
-        }
-
-        const message = err instanceof Error ? err.message : "Error al cargar las bibliotecas"
-        setError(message)
-        setLibraries([])
-      } finally {
-        if (isActive) {
-          setIsLoading(false)
-        }
-      }
-    }
-
-    void loadLibraries()
-
-    return () => {
-      isActive = false
-    }
-  }, [router])
+  const libraries = librariesQuery.data ?? []
+  const isLoading = librariesQuery.isLoading
+  const loadErrorMessage =
+    librariesQuery.error instanceof Error ? librariesQuery.error.message : "Error al cargar las bibliotecas"
+  const error = librariesQuery.error ? loadErrorMessage : null
 
   const handleDelete = async (libraryId: string, libraryName: string) => {
     if (deletingLibraryId) {
@@ -76,19 +40,11 @@ export default function LibrariesPage() {
     setActionError(null)
 
     try {
+      // La caché de consultas se invalida tras la mutación y recarga el listado
       await librariesApi.delete(libraryId)
-      setLibraries((previous) => previous.filter((library) => library.id !== libraryId))
-      router.refresh()
     } catch (err) {
       console.error("Error deleting library:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setActionError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
-
       const message = err instanceof Error ? err.message : "No se pudo eliminar la biblioteca"
       setActionError(message)
     } finally {
@@ -118,18 +74,31 @@ export default function LibrariesPage() {
               >
                 Volver al Inicio
               </Link>
-              <Link
-                href="/libraries/new"
-                className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
-              >
-                Agregar Biblioteca
-              </Link>
+              {can("libraries:write") && (
+                <Link
+                  href="/libraries/new"
+                  className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
+                >
+                  Agregar Biblioteca
+                </Link>
+              )}
             </div>
           </div>
 
           {error && <ErrorMessage message={error} className="mb-6" />}
           {actionError && !error && <ErrorMessage message={actionError} className="mb-6" />}
 
+          {!isLoading && totalLibraries > 0 && (
+            <div className="flex justify-end mb-4">
+              <ExportButtons
+                baseName="bibliotecas"
+                columns={LIBRARY_EXPORT_COLUMNS}
+                loadItems={async () => libraries}
+                onError={setActionError}
+              />
+            </div>
+          )}
+
           {isLoading ? (
             <div className="flex justify-center py-12">
               <LoadingSpinner className="w-8 h-8 text-blue-600" />
@@ -154,7 +123,9 @@ export default function LibrariesPage() {
               </div>
               <h3 className="text-lg font-medium text-gray-900 mb-2">Aún no hay bibliotecas registradas</h3>
               <p className="text-gray-600">
-                Crea una biblioteca desde el panel de administración para comenzar a asociar libros y gestionar préstamos.
+                {can("libraries:write")
+                  ? "Crea una biblioteca desde el panel de administración para comenzar a asociar libros y gestionar préstamos."
+                  : "Un administrador debe crear una biblioteca para comenzar a asociar libros y gestionar préstamos."}
               </p>
             </div>
           ) : (
@@ -178,12 +149,17 @@ export default function LibrariesPage() {
                 {libraries.map((library) => {
                   const books = library.books ?? []
                   const hasBooks = books.length > 0
+                  const availableBooksCount = books.filter((book) => book.available).length
 
                   return (
                     <div key={library.id} className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
-                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                         <div>
-                          <h2 className="text-2xl font-semibold text-gray-900">{library.name}</h2>
+                          <h2 className="text-2xl font-semibold text-gray-900">
+                            <Link href={`/libraries/${library.id}`} className="hover:text-blue-600">
+                              {library.name}
+                            </Link>
+                          </h2>
                           {library.address && (
                             <p className="text-sm text-gray-500">{library.address}</p>
                           )}
@@ -192,77 +168,61 @@ export default function LibrariesPage() {
                           )}
                           <p className="text-gray-600 mt-2 max-w-2xl">
                             {hasBooks
-                              ? `Explora ${
-                                  books.length === 1
-                                    ? "el libro disponible"
-                                    : `los ${books.length} libros disponibles`
-                                } en esta biblioteca.`
-                              : "Todavía no hay libros asociados a esta biblioteca."
-                            }
+                              ? `${books.length === 1 ? "1 libro publicado" : `${books.length} libros publicados`}, ${
+                                  availableBooksCount === 1 ? "1 disponible" : `${availableBooksCount} disponibles`
+                                } para préstamo.`
+                              : "Todavía no hay libros asociados a esta biblioteca."}
                           </p>
                         </div>
                         <div className="flex flex-wrap gap-3">
                           <Link
-                            href={`/loans?libraryId=${library.id}`}
-                            className="inline-flex items-center bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
-                          >
-                            Iniciar préstamo aquí
-                          </Link>
-                          <Link
-                            href={`/books/new?libraryId=${library.id}`}
-                            className="inline-flex items-center bg-blue-100 text-blue-700 px-4 py-2 rounded-md hover:bg-blue-200 transition-colors"
-                          >
-                            Agregar libro a esta biblioteca
-                          </Link>
-                          <Link
-                            href={`/libraries/${library.id}/edit`}
+                            href={`/libraries/${library.id}`}
                             className="inline-flex items-center bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
                           >
-                            Editar
+                            Ver catálogo
                           </Link>
-                          <button
-                            type="button"
-                            onClick={() => handleDelete(library.id, library.name)}
-                            disabled={deletingLibraryId === library.id}
-                            className="inline-flex items-center bg-red-100 text-red-700 px-4 py-2 rounded-md hover:bg-red-200 transition-colors disabled:opacity-60"
-                          >
-                            {deletingLibraryId === library.id ? (
-                              <span className="flex items-center gap-2">
-                                <LoadingSpinner className="w-4 h-4" /> Eliminando...
-                              </span>
-                            ) : (
-                              "Eliminar"
-                            )}
-                          </button>
+                          {can("loans:create") && (
+                            <Link
+                              href={`/loans?libraryId=${library.id}`}
+                              className="inline-flex items-center bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
+                            >
+                              Iniciar préstamo aquí
+                            </Link>
+                          )}
+                          {can("books:write") && (
+                            <Link
+                              href={`/books/new?libraryId=${library.id}`}
+                              className="inline-flex items-center bg-blue-100 text-blue-700 px-4 py-2 rounded-md hover:bg-blue-200 transition-colors"
+                            >
+                              Agregar libro a esta biblioteca
+                            </Link>
+                          )}
+                          {can("libraries:write") && (
+                            <Link
+                              href={`/libraries/${library.id}/edit`}
+                              className="inline-flex items-center bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+                            >
+                              Editar
+                            </Link>
+                          )}
+                          {can("libraries:delete") && (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(library.id, library.name)}
+                              disabled={deletingLibraryId === library.id}
+                              className="inline-flex items-center bg-red-100 text-red-700 px-4 py-2 rounded-md hover:bg-red-200 transition-colors disabled:opacity-60"
+                            >
+                              {deletingLibraryId === library.id ? (
+                                <span className="flex items-center gap-2">
+                                  <LoadingSpinner className="w-4 h-4" /> Eliminando...
+                                </span>
+                              ) : (
+                                "Eliminar"
+                              )}
+                            </button>
+                          )}
                         </div>
                       </div>
-
-                      <div className="border-t pt-4">
-                        {hasBooks ? (
-                          <div className="grid gap-3 md:grid-cols-2">
-                            {books.map((book) => (
-                              <div key={book.id} className="flex flex-col gap-1 p-4 rounded-md bg-gray-50">
-                                <div className="flex items-center justify-between">
-                                  <h3 className="text-lg font-semibold text-gray-900">{book.title}</h3>
-                                  <span
-                                    className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                      book.available ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
-                                    }`}
-                                  >
-                                    {book.available ? "Disponible" : "Prestado"}
-                                  </span>
-                                </div>
-                                <p className="text-sm text-gray-600">Autor: {book.author}</p>
-                                {book.isbn && <p className="text-xs text-gray-500">ISBN: {book.isbn}</p>}
-                              </div>
-                            ))}
-                          </div>
-                        ) : (
-                          <p className="text-sm text-gray-600">
-                            Esta biblioteca aún no ha publicado libros. Agrega un título para que los miembros puedan solicitarlo.
-                          </p>
-                        )}
-                      </div>
                     </div>
                   )
                 })}
@@ -1,6 +1,7 @@
 "use server"
 
 import { loansApi } from "@/lib/api"
+import "@/lib/server-auth"
 import { revalidatePath } from "next/cache"
 
 export async function returnLoan(loanId: string) {
@@ -14,9 +15,9 @@ export async function returnLoan(loanId: string) {
   }
 }
 
-export async function createLoan(bookId: string, memberId: string) {
+export async function createLoan(bookId: string, memberId: string, dueDate?: string, copyId?: string) {
   try {
-    await loansApi.create({ bookId, memberId })
+    await loansApi.create({ bookId, copyId, memberId, dueDate })
     revalidatePath("/loans")
     return { success: true }
   } catch (error: any) {
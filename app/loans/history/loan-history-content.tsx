@@ -0,0 +1,378 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { booksApi, librariesApi, loansApi, membersApi } from "@/lib/api"
+import { isBookInLibrary } from "@/lib/copies"
+import { LOAN_EXPORT_COLUMNS } from "@/lib/export"
+import { formatLoanDate, formatLoanDueDate, isLoanOverdue, withLoanRelations } from "@/lib/loans"
+import { fetchAllPages } from "@/lib/pagination"
+import { queryKeys } from "@/lib/query"
+import type { LoanQuery, LoanSortField, LoanStatus } from "@/lib/types"
+import { ExportButtons } from "@/components/export-buttons"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Pagination } from "@/components/ui/pagination"
+import { SortableHeader } from "@/components/ui/sortable-header"
+import { usePaginationParams } from "@/hooks/use-pagination-params"
+import { useQuery } from "@/hooks/use-query"
+
+const LOAN_SORT_FIELDS: readonly LoanSortField[] = ["loanDate", "returnDate"]
+
+const STATUS_OPTIONS: { value: LoanStatus; label: string }[] = [
+  { value: "active", label: "Activos" },
+  { value: "returned", label: "Devueltos" },
+  { value: "overdue", label: "Vencidos" },
+]
+
+const FILTER_PARAMS = ["memberId", "bookId", "libraryId", "status", "from", "to"] as const
+
+const isLoanStatus = (value: string | null): value is LoanStatus =>
+  STATUS_OPTIONS.some((option) => option.value === value)
+
+export function LoanHistoryContent() {
+  const { page, limit, sort, order, setPage, toggleSort, searchParams, updateSearchParams } = usePaginationParams(
+    LOAN_SORT_FIELDS,
+    { sort: "loanDate", order: "desc" },
+  )
+  const requestedStatus = searchParams.get("status")
+  const filterQuery: LoanQuery = {
+    memberId: searchParams.get("memberId") || undefined,
+    bookId: searchParams.get("bookId") || undefined,
+    libraryId: searchParams.get("libraryId") || undefined,
+    status: isLoanStatus(requestedStatus) ? requestedStatus : undefined,
+    loanDateFrom: searchParams.get("from") || undefined,
+    loanDateTo: searchParams.get("to") || undefined,
+  }
+  const hasFilters = Object.values(filterQuery).some((value) => value !== undefined)
+  const loanQuery: LoanQuery = { ...filterQuery, page, limit, sort, order }
+
+  const loansPageQuery = useQuery(queryKeys.loanPage(loanQuery), (signal) => loansApi.getPage(loanQuery, { signal }))
+  // Opciones de los filtros y relaciones de los préstamos que el backend no incluye
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  const booksQuery = useQuery(queryKeys.books(), (signal) => booksApi.getAll({}, { signal }))
+  const membersQuery = useQuery(queryKeys.members(), (signal) => membersApi.getAll({ signal }))
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const libraries = useMemo(() => librariesQuery.data ?? [], [librariesQuery.data])
+  const books = useMemo(() => booksQuery.data ?? [], [booksQuery.data])
+  const members = useMemo(() => membersQuery.data ?? [], [membersQuery.data])
+  const { libraryId: selectedLibraryId } = filterQuery
+  // Incluye los libros registrados en otra biblioteca que tienen ejemplares en la elegida
+  const booksForLibrary = selectedLibraryId
+    ? books.filter((book) => isBookInLibrary(book, selectedLibraryId))
+    : books
+
+  const relations = useMemo(
+    () => ({
+      booksById: new Map(books.map((book) => [book.id, book])),
+      membersById: new Map(members.map((member) => [member.id, member])),
+      librariesById: new Map(libraries.map((library) => [library.id, library])),
+    }),
+    [books, libraries, members],
+  )
+
+  const loans = useMemo(
+    () => (loansPageQuery.data?.items ?? []).map((loan) => withLoanRelations(loan, relations)),
+    [loansPageQuery.data, relations],
+  )
+
+  const queries = [loansPageQuery, librariesQuery, booksQuery, membersQuery]
+  const loadError = queries.find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "Error al cargar el historial de préstamos"
+  const error = exportError ?? (loadError ? loadErrorMessage : null)
+  const totalPages = loansPageQuery.data?.totalPages ?? 1
+
+  useEffect(() => {
+    if (page > totalPages) {
+      setPage(totalPages)
+    }
+  }, [page, setPage, totalPages])
+
+  // Cualquier cambio de filtro vuelve a la primera página
+  const handleFilterChange = (name: (typeof FILTER_PARAMS)[number], value: string) => {
+    // Un libro de otra biblioteca dejaría el listado vacío sin motivo aparente
+    const selectedBook = books.find((book) => book.id === filterQuery.bookId)
+    const resetBook =
+      name === "libraryId" &&
+      Boolean(value && filterQuery.bookId) &&
+      !(selectedBook && isBookInLibrary(selectedBook, value))
+
+    updateSearchParams({ [name]: value, ...(resetBook && { bookId: null }), page: null })
+  }
+
+  // Se exportan todas las páginas con los filtros y el orden actuales
+  const loadLoansForExport = async () => {
+    const allLoans = await fetchAllPages((query: LoanQuery) => loansApi.getPage(query), { ...filterQuery, sort, order })
+    return allLoans.map((loan) => withLoanRelations(loan, relations))
+  }
+
+  const handleClearFilters = () => {
+    updateSearchParams({ ...Object.fromEntries(FILTER_PARAMS.map((name) => [name, null])), page: null })
+  }
+
+  const now = new Date()
+  const selectClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Historial de Préstamos</h1>
+              <p className="text-gray-600 mt-2">Consulta todos los préstamos registrados, activos y devueltos</p>
+            </div>
+            <Link
+              href="/loans"
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Volver a Préstamos
+            </Link>
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+              <div>
+                <label htmlFor="history-member" className="block text-sm font-medium text-gray-700 mb-2">
+                  Miembro
+                </label>
+                <select
+                  id="history-member"
+                  value={filterQuery.memberId ?? ""}
+                  onChange={(event) => handleFilterChange("memberId", event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Todos</option>
+                  {members.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="history-library" className="block text-sm font-medium text-gray-700 mb-2">
+                  Biblioteca
+                </label>
+                <select
+                  id="history-library"
+                  value={filterQuery.libraryId ?? ""}
+                  onChange={(event) => handleFilterChange("libraryId", event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Todas</option>
+                  {libraries.map((library) => (
+                    <option key={library.id} value={library.id}>
+                      {library.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="history-book" className="block text-sm font-medium text-gray-700 mb-2">
+                  Libro
+                </label>
+                <select
+                  id="history-book"
+                  value={filterQuery.bookId ?? ""}
+                  onChange={(event) => handleFilterChange("bookId", event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Todos</option>
+                  {booksForLibrary.map((book) => (
+                    <option key={book.id} value={book.id}>
+                      {book.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="history-status" className="block text-sm font-medium text-gray-700 mb-2">
+                  Estado
+                </label>
+                <select
+                  id="history-status"
+                  value={filterQuery.status ?? ""}
+                  onChange={(event) => handleFilterChange("status", event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Todos</option>
+                  {STATUS_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="history-from" className="block text-sm font-medium text-gray-700 mb-2">
+                  Prestado desde
+                </label>
+                <input
+                  type="date"
+                  id="history-from"
+                  value={filterQuery.loanDateFrom ?? ""}
+                  max={filterQuery.loanDateTo}
+                  onChange={(event) => handleFilterChange("from", event.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="history-to" className="block text-sm font-medium text-gray-700 mb-2">
+                  Prestado hasta
+                </label>
+                <input
+                  type="date"
+                  id="history-to"
+                  value={filterQuery.loanDateTo ?? ""}
+                  min={filterQuery.loanDateFrom}
+                  onChange={(event) => handleFilterChange("to", event.target.value)}
+                  className={selectClassName}
+                />
+              </div>
+            </div>
+            {hasFilters && (
+              <div className="flex justify-end mt-4">
+                <button
+                  type="button"
+                  onClick={handleClearFilters}
+                  className="text-sm text-purple-600 hover:text-purple-800 font-medium"
+                >
+                  Limpiar filtros
+                </button>
+              </div>
+            )}
+          </div>
+
+          {!loansPageQuery.isLoading && loans.length > 0 && (
+            <div className="flex justify-end mb-4">
+              <ExportButtons
+                baseName="historial-prestamos"
+                columns={LOAN_EXPORT_COLUMNS}
+                loadItems={loadLoansForExport}
+                onError={setExportError}
+              />
+            </div>
+          )}
+
+          {loansPageQuery.isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-purple-600" />
+            </div>
+          ) : loans.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+              {hasFilters
+                ? "Ningún préstamo coincide con los filtros seleccionados"
+                : "Aún no hay préstamos registrados"}
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Libro
+                      </th>
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Miembro
+                      </th>
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Biblioteca
+                      </th>
+                      <SortableHeader
+                        label="Prestado"
+                        field="loanDate"
+                        sort={sort}
+                        order={order}
+                        onSort={toggleSort}
+                      />
+                      <SortableHeader
+                        label="Devolución"
+                        field="returnDate"
+                        sort={sort}
+                        order={order}
+                        onSort={toggleSort}
+                      />
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Estado
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {loans.map((loan) => {
+                      const isOverdue = isLoanOverdue(loan, now)
+                      const statusLabel = loan.isReturned ? "Devuelto" : isOverdue ? "Vencido" : "Activo"
+                      const statusClassName = loan.isReturned
+                        ? "bg-green-100 text-green-800"
+                        : isOverdue
+                          ? "bg-red-100 text-red-800"
+                          : "bg-yellow-100 text-yellow-800"
+
+                      return (
+                        <tr key={loan.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-3">
+                            <Link
+                              href={`/books/${loan.bookId}`}
+                              className="font-medium text-gray-900 hover:text-blue-600"
+                            >
+                              {loan.book?.title || "Libro no encontrado"}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <Link href={`/members/${loan.memberId}`} className="text-gray-600 hover:text-green-600">
+                              {loan.member?.name || "Miembro no encontrado"}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {loan.library?.name || "No disponible"}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500">
+                            {formatLoanDate(loan.loanDate) ?? "Fecha no disponible"}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500">
+                            {(loan.isReturned ? formatLoanDate(loan.returnDate) : formatLoanDueDate(loan)) ??
+                              "Sin fecha"}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClassName}`}>
+                              {statusLabel}
+                            </span>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <Pagination
+                page={page}
+                totalPages={totalPages}
+                total={loansPageQuery.data?.total ?? 0}
+                onPageChange={setPage}
+                disabled={loansPageQuery.isFetching}
+                className="px-4 py-3 border-t"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,19 @@
+import { Suspense } from "react"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { LoanHistoryContent } from "./loan-history-content"
+
+function LoanHistoryFallback() {
+  return (
+    <div className="flex justify-center py-12">
+      <LoadingSpinner className="w-8 h-8 text-purple-600" />
+    </div>
+  )
+}
+
+export default function LoanHistoryPage() {
+  return (
+    <Suspense fallback={<LoanHistoryFallback />}>
+      <LoanHistoryContent />
+    </Suspense>
+  )
+}
@@ -3,40 +3,82 @@
 import type React from "react"
 
 import { useEffect, useState } from "react"
-import { useRouter } from "next/navigation"
-import { loansApi, ApiError, authApi } from "@/lib/api"
-import type { Book, Member, CreateLoanDto, Library } from "@/lib/types"
+import { booksApi, finesApi, holdsApi, loansApi, membersApi } from "@/lib/api"
+import { formatCopyAvailability, getAvailableCopies, getCopyAvailability, hasCopyInventory } from "@/lib/copies"
+import { buildFineLedger, formatFineAmount, getFineBlockError, getOutstandingFinesTotal } from "@/lib/fines"
+import { getHoldAheadOfMember, getHoldPickupDeadline } from "@/lib/holds"
+import {
+  calculateDueDate,
+  fromDateInputValue,
+  getLoanLimitError,
+  resolveLoanPolicy,
+  toDateInputValue,
+} from "@/lib/loan-policies"
+import { queryKeys } from "@/lib/query"
+import type { BookQuery, CreateLoanDto, Library } from "@/lib/types"
 import { ErrorMessage } from "@/components/ui/error-message"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { useQuery } from "@/hooks/use-query"
 
 interface LoanActionsProps {
-  books: Book[]
-  members: Member[]
   libraries: Library[]
   initialLibraryId?: string
+  initialBookId?: string
+  initialMemberId?: string
   onLoanCreated?: () => Promise<void> | void
 }
 
-export function LoanActions({ books, members, libraries, initialLibraryId, onLoanCreated }: LoanActionsProps) {
-  const router = useRouter()
+export function LoanActions({
+  libraries,
+  initialLibraryId,
+  initialBookId,
+  initialMemberId,
+  onLoanCreated,
+}: LoanActionsProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedLibraryId, setSelectedLibraryId] = useState<string>(() => {
-    const normalizedInitialId = initialLibraryId ? String(initialLibraryId) : null
-
-    if (
-      normalizedInitialId &&
-      libraries.some((library) => String(library.id) === normalizedInitialId)
-    ) {
-      return normalizedInitialId
+    if (initialLibraryId && libraries.some((library) => library.id === initialLibraryId)) {
+      return initialLibraryId
     }
 
-    return libraries[0] ? String(libraries[0].id) : ""
+    return libraries[0]?.id ?? ""
   })
   const [formData, setFormData] = useState<CreateLoanDto>({
-    bookId: "",
-    memberId: "",
+    bookId: initialBookId ?? "",
+    memberId: initialMemberId ?? "",
   })
+  // Fecha `YYYY-MM-DD` elegida por el personal; `null` usa la que calcula la política
+  const [dueDateOverride, setDueDateOverride] = useState<string | null>(null)
+
+  // Solo los libros disponibles de la biblioteca elegida, no el catálogo completo
+  const availableBooksFilter: BookQuery = { libraryId: selectedLibraryId, available: true }
+  const booksQuery = useQuery(
+    queryKeys.books(availableBooksFilter),
+    (signal) => booksApi.getAll(availableBooksFilter, { signal }),
+    { enabled: Boolean(selectedLibraryId) },
+  )
+  const membersQuery = useQuery(queryKeys.members(), (signal) => membersApi.getAll({ signal }))
+  // Reservas del libro elegido: un ejemplar apartado solo se presta al miembro que lo reservó
+  const bookHoldsFilter = { bookId: formData.bookId }
+  const bookHoldsQuery = useQuery(
+    queryKeys.holds(bookHoldsFilter),
+    (signal) => holdsApi.getAll(bookHoldsFilter, { signal }),
+    { enabled: Boolean(formData.bookId) },
+  )
+
+  // Todos los préstamos del miembro: los activos cuentan para el límite y los devueltos con atraso generan multas
+  const memberFilter = { memberId: formData.memberId }
+  const memberLoansQuery = useQuery(
+    queryKeys.loans(memberFilter),
+    (signal) => loansApi.getAll(memberFilter, { signal }),
+    { enabled: Boolean(formData.memberId) },
+  )
+  const memberFinesQuery = useQuery(
+    queryKeys.fines(memberFilter),
+    (signal) => finesApi.getAll(memberFilter, { signal }),
+    { enabled: Boolean(formData.memberId) },
+  )
 
   useEffect(() => {
     if (libraries.length === 0) {
@@ -44,22 +86,17 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
       return
     }
 
-    const normalizedInitialId = initialLibraryId ? String(initialLibraryId) : null
-
-    if (
-      normalizedInitialId &&
-      libraries.some((library) => String(library.id) === normalizedInitialId)
-    ) {
-      setSelectedLibraryId(normalizedInitialId)
+    if (initialLibraryId && libraries.some((library) => library.id === initialLibraryId)) {
+      setSelectedLibraryId(initialLibraryId)
       return
     }
 
     setSelectedLibraryId((current) => {
-      if (current && libraries.some((library) => String(library.id) === current)) {
+      if (current && libraries.some((library) => library.id === current)) {
         return current
       }
 
-      return libraries[0] ? String(libraries[0].id) : ""
+      return libraries[0]?.id ?? ""
     })
   }, [initialLibraryId, libraries])
 
@@ -68,6 +105,8 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
     setFormData((prev) => ({
       ...prev,
       [name]: value,
+      // Al cambiar de libro se vuelve a sugerir el primer ejemplar disponible
+      ...(name === "bookId" && { copyId: undefined }),
     }))
   }
 
@@ -75,8 +114,48 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
     const newLibraryId = e.target.value
     setSelectedLibraryId(newLibraryId)
     setFormData({ bookId: "", memberId: "" })
+    setDueDateOverride(null)
   }
 
+  const books = booksQuery.data ?? []
+  const members = membersQuery.data ?? []
+  const holds = bookHoldsQuery.data ?? []
+  const loadError = [booksQuery, membersQuery, bookHoldsQuery].find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "Error al cargar libros y miembros"
+  const displayedError = error ?? (loadError ? loadErrorMessage : null)
+
+  const selectedMember = members.find((member) => member.id === formData.memberId)
+  const selectedBook = books.find((book) => book.id === formData.bookId)
+  const availableCopies = selectedBook ? getAvailableCopies(selectedBook, selectedLibraryId) : []
+  const selectedCopyId = formData.copyId ?? availableCopies[0]?.id ?? ""
+  const policy = resolveLoanPolicy({ libraryId: selectedLibraryId, memberType: selectedMember?.memberType })
+  const today = new Date()
+  const suggestedDueDate = toDateInputValue(calculateDueDate(today, policy))
+  const dueDateValue = dueDateOverride ?? suggestedDueDate
+  // Por si el backend ignora los filtros
+  const memberLoans = (memberLoansQuery.data ?? []).filter((loan) => loan.memberId === formData.memberId)
+  const memberFines = (memberFinesQuery.data ?? []).filter((fine) => fine.memberId === formData.memberId)
+  const memberActiveLoansCount = memberLoans.filter((loan) => !loan.isReturned).length
+  const outstandingFines = getOutstandingFinesTotal(buildFineLedger(memberLoans, memberFines, today))
+  const loanLimitError =
+    formData.memberId && memberLoansQuery.data
+      ? getLoanLimitError(memberActiveLoansCount, policy) ??
+        (memberFinesQuery.data ? getFineBlockError(outstandingFines, policy.maxOutstandingFines) : null)
+      : null
+  // Las reservas son del título, no de una biblioteca: cuentan los ejemplares disponibles en todas
+  const reservedHold =
+    selectedBook && formData.memberId
+      ? getHoldAheadOfMember(holds, selectedBook.id, formData.memberId, getAvailableCopies(selectedBook).length)
+      : undefined
+  const reservedHoldMemberName = members.find((member) => member.id === reservedHold?.memberId)?.name ?? "otro miembro"
+  const reservedHoldError = !reservedHold
+    ? null
+    : reservedHold.status === "ready"
+      ? `Este libro está apartado para ${reservedHoldMemberName} hasta el ${
+          getHoldPickupDeadline(reservedHold)?.toLocaleDateString("es-ES") ?? "fin de su plazo de recogida"
+        }`
+      : `Este libro está reservado: ${reservedHoldMemberName} va antes en la cola`
+
   const handleCreateLoan = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -89,26 +168,37 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
         return
       }
 
-      const selectedBook = books.find((book) => String(book.id) === formData.bookId)
-      if (!selectedBook || String(selectedBook.libraryId) !== selectedLibraryId) {
-        setError("El libro seleccionado no pertenece a la biblioteca elegida")
+      if (!selectedBook || availableCopies.length === 0) {
+        setError("El libro seleccionado no tiene ejemplares disponibles en la biblioteca elegida")
+        setIsLoading(false)
+        return
+      }
+
+      if (reservedHoldError ?? loanLimitError) {
+        setError(reservedHoldError ?? loanLimitError)
         setIsLoading(false)
         return
       }
 
-      await loansApi.create(formData)
+      const dueDate = fromDateInputValue(dueDateValue)
+      if (!dueDate || dueDateValue < toDateInputValue(today)) {
+        setError("La fecha de devolución debe ser hoy o una fecha posterior")
+        setIsLoading(false)
+        return
+      }
+
+      await loansApi.create({
+        ...formData,
+        copyId: hasCopyInventory(selectedBook) ? selectedCopyId : undefined,
+        dueDate: dueDate.toISOString(),
+      })
       if (onLoanCreated) {
         await onLoanCreated()
       }
       setFormData({ bookId: "", memberId: "" })
+      setDueDateOverride(null)
     } catch (err: any) {
       console.error("Error creating loan:", err)
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
 
       setError(err.message || "Error al crear el préstamo")
     } finally {
@@ -116,15 +206,13 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
     }
   }
 
-  const booksForSelectedLibrary = books.filter(
-    (book) => String(book.libraryId) === selectedLibraryId,
-  )
+  const booksForSelectedLibrary = books.filter((book) => getAvailableCopies(book, selectedLibraryId).length > 0)
   const isFormValid = selectedLibraryId && formData.bookId && formData.memberId
   const hasLibraries = libraries.length > 0
 
   return (
     <form onSubmit={handleCreateLoan} className="space-y-4">
-      {error && <ErrorMessage message={error} />}
+      {displayedError && <ErrorMessage message={displayedError} />}
 
       <div className="grid md:grid-cols-3 gap-4">
         {/* Library Selection */}
@@ -143,7 +231,7 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
           >
             {hasLibraries ? (
               libraries.map((library) => (
-                <option key={library.id} value={String(library.id)}>
+                <option key={library.id} value={library.id}>
                   {library.name}
                 </option>
               ))
@@ -167,18 +255,45 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
             disabled={isLoading}
           >
-            <option value="">Selecciona un libro...</option>
+            <option value="">{booksQuery.isLoading ? "Cargando libros..." : "Selecciona un libro..."}</option>
             {booksForSelectedLibrary.map((book) => (
-              <option key={book.id} value={String(book.id)}>
+              <option key={book.id} value={book.id}>
                 {book.title} - {book.author}
+                {hasCopyInventory(book)
+                  ? ` (${formatCopyAvailability(getCopyAvailability(book, selectedLibraryId))})`
+                  : ""}
               </option>
             ))}
           </select>
-          {hasLibraries && booksForSelectedLibrary.length === 0 && (
+          {selectedBook && hasCopyInventory(selectedBook) && availableCopies.length > 0 && (
+            <div className="mt-2">
+              <label htmlFor="copyId" className="block text-xs font-medium text-gray-600 mb-1">
+                Ejemplar
+              </label>
+              <select
+                id="copyId"
+                name="copyId"
+                value={selectedCopyId}
+                onChange={handleLoanFieldChange}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                disabled={isLoading}
+              >
+                {availableCopies.map((copy) => (
+                  <option key={copy.id} value={copy.id}>
+                    {copy.barcode}
+                    {copy.shelfLocation ? ` · ${copy.shelfLocation}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {hasLibraries && !booksQuery.isLoading && booksForSelectedLibrary.length === 0 && (
             <p className="text-xs text-gray-500 mt-2">
               No hay libros disponibles en esta biblioteca. Publica un título para habilitar préstamos.
             </p>
           )}
+          {reservedHoldError && <p className="text-xs text-red-600 mt-2">{reservedHoldError}</p>}
         </div>
 
         {/* Member Selection */}
@@ -195,26 +310,82 @@ export function LoanActions({ books, members, libraries, initialLibraryId, onLoa
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
             disabled={isLoading}
           >
-            <option value="">Selecciona un miembro...</option>
+            <option value="">{membersQuery.isLoading ? "Cargando miembros..." : "Selecciona un miembro..."}</option>
             {members.map((member) => (
               <option key={member.id} value={member.id}>
                 {member.name} - {member.email}
               </option>
             ))}
           </select>
-          {members.length === 0 && (
+          {!membersQuery.isLoading && members.length === 0 && (
             <p className="text-xs text-gray-500 mt-2">
               Registra miembros para poder asignar préstamos en esta biblioteca.
             </p>
           )}
+          {loanLimitError && <p className="text-xs text-red-600 mt-2">{loanLimitError}</p>}
         </div>
       </div>
 
+      {/* Due Date Preview */}
+      {formData.bookId && formData.memberId && (
+        <div className="flex flex-col md:flex-row md:items-end gap-4 bg-purple-50 border border-purple-100 rounded-md p-4">
+          <div>
+            <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-2">
+              Fecha de devolución
+            </label>
+            <input
+              type="date"
+              id="dueDate"
+              name="dueDate"
+              value={dueDateValue}
+              min={toDateInputValue(today)}
+              onChange={(e) => setDueDateOverride(e.target.value || null)}
+              required
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              disabled={isLoading}
+            />
+          </div>
+          <div className="text-sm text-gray-600 md:pb-2">
+            {dueDateOverride && dueDateOverride !== suggestedDueDate ? (
+              <>
+                Fecha ajustada manualmente; la política sugiere el{" "}
+                {fromDateInputValue(suggestedDueDate)?.toLocaleDateString("es-ES")}.{" "}
+                <button
+                  type="button"
+                  onClick={() => setDueDateOverride(null)}
+                  className="text-purple-600 hover:text-purple-800 font-medium"
+                >
+                  Restablecer
+                </button>
+              </>
+            ) : (
+              <>
+                Plazo de {policy.loanPeriodDays} días según la política de préstamo
+                {selectedMember?.memberType ? ` para miembros "${selectedMember.memberType}"` : ""}.
+              </>
+            )}
+            <span className="block text-xs text-gray-500 mt-1">
+              Préstamos activos del miembro: {memberLoansQuery.data ? memberActiveLoansCount : "…"} de{" "}
+              {policy.maxActiveLoans}
+              {memberFinesQuery.data && outstandingFines > 0
+                ? ` · Multas pendientes: ${formatFineAmount(outstandingFines)}`
+                : ""}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Submit Button */}
       <div className="flex justify-end">
         <button
           type="submit"
-          disabled={!isFormValid || isLoading || !hasLibraries || booksForSelectedLibrary.length === 0}
+          disabled={
+            !isFormValid ||
+            isLoading ||
+            !hasLibraries ||
+            booksForSelectedLibrary.length === 0 ||
+            Boolean(loanLimitError ?? reservedHoldError)
+          }
           className="bg-purple-600 text-white px-6 py-2 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
         >
           {isLoading ? (
@@ -1,158 +1,187 @@
 "use client"
 
-import { useCallback, useEffect, useRef, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import Link from "next/link"
-import { useRouter, useSearchParams } from "next/navigation"
-import { loansApi, booksApi, membersApi, librariesApi, ApiError, authApi } from "@/lib/api"
-import type { Loan, Book, Member, Library } from "@/lib/types"
+import { useSearchParams } from "next/navigation"
+import { loansApi, booksApi, membersApi, librariesApi, holdsApi } from "@/lib/api"
+import { getAvailableCopies } from "@/lib/copies"
+import { LOAN_EXPORT_COLUMNS } from "@/lib/export"
+import { hasPendingHoldForLoan } from "@/lib/holds"
+import { fetchAllPages } from "@/lib/pagination"
+import { queryKeys } from "@/lib/query"
+import {
+  formatLoanDate as formatDate,
+  formatLoanDueDate,
+  getLoanPolicy,
+  getLoanRenewalCount,
+  getRenewalBlockReason,
+  getMissingLoanRelationIds,
+  getRenewalDueDate,
+  isLoanOverdue,
+  withLoanRelations,
+  type LoanRelations,
+} from "@/lib/loans"
+import type { BookQuery, Loan, LoanQuery, LoanSortField } from "@/lib/types"
+import { ExportButtons } from "@/components/export-buttons"
 import { ErrorMessage } from "@/components/ui/error-message"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Pagination } from "@/components/ui/pagination"
+import { SortableHeader } from "@/components/ui/sortable-header"
+import { usePermissions } from "@/hooks/use-permissions"
+import { usePaginationParams } from "@/hooks/use-pagination-params"
+import { useQuery } from "@/hooks/use-query"
 import { LoanActions } from "./loan-actions"
 
+const LOAN_SORT_FIELDS: readonly LoanSortField[] = ["loanDate", "returnDate"]
+const RECENT_RETURNS_QUERY: LoanQuery = { status: "returned", sort: "returnDate", order: "desc", limit: 5 }
+const OVERDUE_COUNT_QUERY: LoanQuery = { status: "overdue", limit: 1 }
+const AVAILABLE_COUNT_QUERY: BookQuery = { available: true, limit: 1 }
+
 export function LoansPageContent() {
-  const router = useRouter()
   const searchParams = useSearchParams()
-  const isMountedRef = useRef(true)
-  const [loans, setLoans] = useState<Loan[]>([])
-  const [books, setBooks] = useState<Book[]>([])
-  const [members, setMembers] = useState<Member[]>([])
-  const [libraries, setLibraries] = useState<Library[]>([])
-  const [error, setError] = useState<string | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
+  const { can } = usePermissions()
+  const { page, limit, sort, order, setPage, toggleSort } = usePaginationParams(LOAN_SORT_FIELDS, {
+    sort: "loanDate",
+    order: "desc",
+  })
+  const activeLoansQuery = { activeOnly: true, page, limit, sort, order }
+  const activeLoansPageQuery = useQuery(queryKeys.loanPage(activeLoansQuery), (signal) =>
+    loansApi.getPage(activeLoansQuery, { signal }),
+  )
+  const returnedLoansPageQuery = useQuery(queryKeys.loanPage(RECENT_RETURNS_QUERY), (signal) =>
+    loansApi.getPage(RECENT_RETURNS_QUERY, { signal }),
+  )
+  const overdueCountQuery = useQuery(queryKeys.loanPage(OVERDUE_COUNT_QUERY), (signal) =>
+    loansApi.getPage(OVERDUE_COUNT_QUERY, { signal }),
+  )
+  const availableCountQuery = useQuery(queryKeys.bookPage(AVAILABLE_COUNT_QUERY), (signal) =>
+    booksApi.getPage(AVAILABLE_COUNT_QUERY, { signal }),
+  )
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  // Solo los libros y miembros de los préstamos en pantalla cuyo backend no incluye `book` y `member`
+  const { bookIds, memberIds } = getMissingLoanRelationIds([
+    ...(activeLoansPageQuery.data?.items ?? []),
+    ...(returnedLoansPageQuery.data?.items ?? []),
+  ])
+  const booksQuery = useQuery(queryKeys.booksByIds(bookIds), (signal) => booksApi.getByIds(bookIds, { signal }), {
+    enabled: bookIds.length > 0,
+  })
+  const membersQuery = useQuery(
+    queryKeys.membersByIds(memberIds),
+    (signal) => membersApi.getByIds(memberIds, { signal }),
+    { enabled: memberIds.length > 0 },
+  )
+  // Las reservas activas impiden renovar
+  const holdsQuery = useQuery(queryKeys.activeHolds(), (signal) => holdsApi.getActive({ signal }))
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [renewingLoanId, setRenewingLoanId] = useState<string | null>(null)
+
+  const libraries = useMemo(() => librariesQuery.data ?? [], [librariesQuery.data])
+  const queries = [
+    activeLoansPageQuery,
+    returnedLoansPageQuery,
+    overdueCountQuery,
+    availableCountQuery,
+    librariesQuery,
+    booksQuery,
+    membersQuery,
+    holdsQuery,
+  ]
+  const isLoading = queries.some((query) => query.isLoading)
+  const loadError = queries.find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "Error al cargar los datos de préstamos"
+  const error = actionError ?? (loadError ? loadErrorMessage : null)
+  const totalPages = activeLoansPageQuery.data?.totalPages ?? 1
 
   useEffect(() => {
-    return () => {
-      isMountedRef.current = false
+    // Tras devolver el último préstamo de la última página, vuelve a la última página existente
+    if (page > totalPages) {
+      setPage(totalPages)
     }
-  }, [])
+  }, [page, setPage, totalPages])
 
-  const handleUnauthorized = useCallback(() => {
-    authApi.clearToken()
-    setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-    setLoans([])
-    setBooks([])
-    setMembers([])
-    setLibraries([])
-    router.replace("/auth/login")
-  }, [router])
-
-  const loadData = useCallback(async () => {
-    if (!isMountedRef.current) return
-
-    setIsLoading(true)
-    setError(null)
+  const handleReturnLoan = useCallback(async (loanId: string) => {
+    setActionError(null)
 
     try {
-      const [librariesResponse, loansResponse, booksResponse, membersResponse] = await Promise.all([
-        librariesApi.getAll(),
-        loansApi.getAll(),
-        booksApi.getAll(),
-        membersApi.getAll(),
-      ])
-
-      if (!isMountedRef.current) return
-
-      setLibraries(librariesResponse)
-      setLoans(loansResponse)
-      setBooks(booksResponse)
-      setMembers(membersResponse)
+      // La caché de consultas se invalida tras la mutación y recarga préstamos y libros
+      await loansApi.returnLoan(loanId)
     } catch (err) {
-      if (!isMountedRef.current) return
-
-      console.error("Error fetching loans data:", err)
+      console.error("Error returning loan:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        handleUnauthorized()
-        return
-      }
-
-      const message = err instanceof Error ? err.message : "Error al cargar los datos de préstamos"
-      setError(message)
-      setLibraries([])
-      setLoans([])
-      setBooks([])
-      setMembers([])
-    } finally {
-      if (isMountedRef.current) {
-        setIsLoading(false)
-      }
+      const message = err instanceof Error ? err.message : "Error al devolver el préstamo"
+      setActionError(message)
     }
-  }, [handleUnauthorized])
+  }, [])
 
-  useEffect(() => {
-    void loadData()
-  }, [loadData])
+  const handleRenewLoan = useCallback(async (loan: Loan) => {
+    const newDueDate = getRenewalDueDate(loan)
+    const confirmed = window.confirm(
+      `¿Renovar "${loan.book?.title ?? "este préstamo"}" hasta el ${newDueDate.toLocaleDateString("es-ES")}?`,
+    )
+    if (!confirmed) {
+      return
+    }
 
-  const handleReturnLoan = useCallback(
-    async (loanId: string) => {
-      try {
-        await loansApi.returnLoan(loanId)
-        await loadData()
-      } catch (err) {
-        console.error("Error returning loan:", err)
+    setRenewingLoanId(loan.id)
+    setActionError(null)
 
-        if (err instanceof ApiError && err.statusCode === 401) {
-          handleUnauthorized()
-          return
-        }
+    try {
+      await loansApi.renew(loan.id, { dueDate: newDueDate.toISOString() })
+    } catch (err) {
+      console.error("Error renewing loan:", err)
 
-        const message = err instanceof Error ? err.message : "Error al devolver el préstamo"
-        setError(message)
-      }
-    },
-    [handleUnauthorized, loadData],
-  )
+      const message = err instanceof Error ? err.message : "Error al renovar el préstamo"
+      setActionError(message)
+    } finally {
+      setRenewingLoanId(null)
+    }
+  }, [])
 
-  const enrichedLoans = loans.map((loan) => {
-    const book = books.find((item) => item.id === loan.bookId)
-    const member = members.find((item) => item.id === loan.memberId)
-    const library = book ? libraries.find((item) => item.id === book.libraryId) : undefined
+  const librariesById = useMemo(() => new Map(libraries.map((library) => [library.id, library])), [libraries])
+  const relations = {
+    booksById: new Map((booksQuery.data ?? []).map((book) => [book.id, book])),
+    membersById: new Map((membersQuery.data ?? []).map((member) => [member.id, member])),
+    librariesById,
+  }
 
-    return {
-      ...loan,
-      book,
-      member,
-      library,
-    }
-  })
+  const activeHolds = holdsQuery.data ?? []
+  const enrichLoan = (loan: Loan, loanRelations: LoanRelations = relations) => {
+    const enrichedLoan = withLoanRelations(loan, loanRelations)
+    return { ...enrichedLoan, hasPendingHold: loan.hasPendingHold ?? hasPendingHoldForLoan(activeHolds, loan) }
+  }
 
-  const activeLoans = enrichedLoans.filter((loan) => !loan.isReturned)
-  const returnedLoans = enrichedLoans.filter((loan) => loan.isReturned)
-  const availableBooks = books.filter((book) => book.available)
-  const availableBooksByLibrary = availableBooks.reduce<Record<string, Book[]>>((acc, book) => {
-    if (!acc[book.libraryId]) {
-      acc[book.libraryId] = []
+  const activeLoans = (activeLoansPageQuery.data?.items ?? []).map((loan) => enrichLoan(loan))
+  // La exportación abarca préstamos de otras páginas: se piden sus relaciones al exportar
+  const loadActiveLoansForExport = async () => {
+    const loans = await fetchAllPages((query: LoanQuery) => loansApi.getPage(query), { activeOnly: true, sort, order })
+    const missingIds = getMissingLoanRelationIds(loans)
+    const [books, members] = await Promise.all([
+      booksApi.getByIds(missingIds.bookIds),
+      membersApi.getByIds(missingIds.memberIds),
+    ])
+    const exportRelations: LoanRelations = {
+      booksById: new Map(books.map((book) => [book.id, book])),
+      membersById: new Map(members.map((member) => [member.id, member])),
+      librariesById,
     }
-    acc[book.libraryId]?.push(book)
-    return acc
-  }, {})
-  const librariesWithStock = libraries.filter(
-    (library) => (availableBooksByLibrary[library.id]?.length ?? 0) > 0,
+    return loans.map((loan) => enrichLoan(loan, exportRelations))
+  }
+  const returnedLoans = (returnedLoansPageQuery.data?.items ?? []).map((loan) => enrichLoan(loan))
+  const activeLoansCount = activeLoansPageQuery.data?.total ?? 0
+  const returnedLoansCount = returnedLoansPageQuery.data?.total ?? 0
+  const overdueLoansCount = overdueCountQuery.data?.total ?? 0
+  const availableBooksCount = availableCountQuery.data?.total ?? 0
+  // Los libros que incluye cada biblioteca; un título cuenta donde tiene algún ejemplar disponible
+  const librariesWithStock = libraries.filter((library) =>
+    (library.books ?? []).some((book) => getAvailableCopies(book, library.id).length > 0),
   ).length
+  // Los detalles de libros y miembros enlazan aquí con el préstamo ya preparado
   const preselectedLibraryId = searchParams.get("libraryId") ?? undefined
+  const preselectedBookId = searchParams.get("bookId") ?? undefined
+  const preselectedMemberId = searchParams.get("memberId") ?? undefined
 
   const now = new Date()
-  const activeLoansWithDueInfo = activeLoans.filter((loan) => {
-    if (!loan.returnDate) return false
-    const dueDate = new Date(loan.returnDate)
-    return !Number.isNaN(dueDate.getTime())
-  })
-  const overdueLoans = activeLoansWithDueInfo.filter((loan) => {
-    if (!loan.returnDate) return false
-    const dueDate = new Date(loan.returnDate)
-    return !Number.isNaN(dueDate.getTime()) && dueDate < now
-  })
-  const overdueDisplayValue = activeLoansWithDueInfo.length > 0 ? overdueLoans.length.toString() : "N/D"
-
-  const formatDate = (value?: string | null) => {
-    if (!value) return null
-    const parsedDate = new Date(value)
-    if (Number.isNaN(parsedDate.getTime())) {
-      return null
-    }
-
-    return parsedDate.toLocaleDateString("es-ES")
-  }
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -166,6 +195,20 @@ export function LoansPageContent() {
               </p>
             </div>
             <div className="flex gap-4">
+              {can("holds:manage") && (
+                <Link
+                  href="/holds"
+                  className="bg-purple-100 text-purple-700 px-4 py-2 rounded-md hover:bg-purple-200 transition-colors"
+                >
+                  Reservas{activeHolds.length > 0 ? ` (${activeHolds.length})` : ""}
+                </Link>
+              )}
+              <Link
+                href="/loans/history"
+                className="bg-purple-100 text-purple-700 px-4 py-2 rounded-md hover:bg-purple-200 transition-colors"
+              >
+                Historial completo
+              </Link>
               <Link
                 href="/"
                 className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
@@ -185,15 +228,15 @@ export function LoansPageContent() {
             <>
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-8">
                 <div className="bg-white rounded-lg shadow-md p-4">
-                  <div className="text-2xl font-bold text-purple-600">{activeLoans.length}</div>
+                  <div className="text-2xl font-bold text-purple-600">{activeLoansCount}</div>
                   <div className="text-sm text-gray-600">Préstamos Activos</div>
                 </div>
                 <div className="bg-white rounded-lg shadow-md p-4">
-                  <div className="text-2xl font-bold text-green-600">{returnedLoans.length}</div>
+                  <div className="text-2xl font-bold text-green-600">{returnedLoansCount}</div>
                   <div className="text-sm text-gray-600">Devueltos</div>
                 </div>
                 <div className="bg-white rounded-lg shadow-md p-4">
-                  <div className="text-2xl font-bold text-blue-600">{availableBooks.length}</div>
+                  <div className="text-2xl font-bold text-blue-600">{availableBooksCount}</div>
                   <div className="text-sm text-gray-600">Libros Disponibles</div>
                 </div>
                 <div className="bg-white rounded-lg shadow-md p-4">
@@ -201,36 +244,46 @@ export function LoansPageContent() {
                   <div className="text-sm text-gray-600">Bibliotecas con libros disponibles</div>
                 </div>
                 <div className="bg-white rounded-lg shadow-md p-4">
-                  <div className="text-2xl font-bold text-red-600">{overdueDisplayValue}</div>
+                  <div className="text-2xl font-bold text-red-600">{overdueLoansCount}</div>
                   <div className="text-sm text-gray-600">Vencidos</div>
                 </div>
               </div>
 
-              {libraries.length > 0 ? (
-                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Crear Nuevo Préstamo</h2>
-                  <p className="text-sm text-gray-600 mb-4">
-                    Selecciona una biblioteca para filtrar los libros disponibles y asignar el préstamo al catálogo correcto.
-                  </p>
-                  <LoanActions
-                    books={availableBooks}
-                    members={members}
-                    libraries={libraries}
-                    initialLibraryId={preselectedLibraryId}
-                    onLoanCreated={loadData}
-                  />
-                </div>
-              ) : (
-                <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-                  <h2 className="text-xl font-semibold text-gray-900 mb-2">No hay bibliotecas registradas</h2>
-                  <p className="text-sm text-gray-600">
-                    Crea una biblioteca en la sección de marketplace para habilitar préstamos y asociar libros.
-                  </p>
-                </div>
-              )}
+              {can("loans:create") &&
+                (libraries.length > 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Crear Nuevo Préstamo</h2>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Selecciona una biblioteca para filtrar los libros disponibles y asignar el préstamo al catálogo correcto.
+                    </p>
+                    <LoanActions
+                      libraries={libraries}
+                      initialLibraryId={preselectedLibraryId}
+                      initialBookId={preselectedBookId}
+                      initialMemberId={preselectedMemberId}
+                    />
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-2">No hay bibliotecas registradas</h2>
+                    <p className="text-sm text-gray-600">
+                      Crea una biblioteca en la sección de marketplace para habilitar préstamos y asociar libros.
+                    </p>
+                  </div>
+                ))}
 
               <div className="mb-8">
-                <h2 className="text-xl font-semibold text-gray-900 mb-4">Préstamos Activos</h2>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Préstamos Activos</h2>
+                  {activeLoans.length > 0 && (
+                    <ExportButtons
+                      baseName="prestamos-activos"
+                      columns={LOAN_EXPORT_COLUMNS}
+                      loadItems={loadActiveLoansForExport}
+                      onError={setActionError}
+                    />
+                  )}
+                </div>
                 {activeLoans.length === 0 ? (
                   <div className="bg-white rounded-lg shadow-md p-8 text-center">
                     <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -247,60 +300,152 @@ export function LoansPageContent() {
                     <p className="text-gray-600">Todos los libros han sido devueltos</p>
                   </div>
                 ) : (
-                  <div className="grid gap-4">
-                    {activeLoans.map((loan) => {
-                      const loanDateLabel = formatDate(loan.loanDate)
-                      const returnDateInstance = loan.returnDate ? new Date(loan.returnDate) : null
-                      const hasReturnDate = Boolean(returnDateInstance) && !Number.isNaN(returnDateInstance.getTime())
-                      const returnDateLabel = hasReturnDate
-                        ? returnDateInstance!.toLocaleDateString("es-ES")
-                        : null
-                      const isOverdue = Boolean(returnDateInstance && returnDateInstance < now)
-                      const statusClass = isOverdue ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Libro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Miembro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Biblioteca
+                            </th>
+                            <SortableHeader
+                              label="Prestado"
+                              field="loanDate"
+                              sort={sort}
+                              order={order}
+                              onSort={toggleSort}
+                            />
+                            <SortableHeader
+                              label="Fecha objetivo"
+                              field="returnDate"
+                              sort={sort}
+                              order={order}
+                              onSort={toggleSort}
+                            />
+                            <th scope="col" className="px-4 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {activeLoans.map((loan) => {
+                            const isOverdue = isLoanOverdue(loan, now)
+                            const renewalCount = getLoanRenewalCount(loan)
+                            const renewalBlockReason = getRenewalBlockReason(loan, now)
 
-                      return (
-                        <div key={loan.id} className="bg-white rounded-lg shadow-md p-6">
-                          <div className="flex justify-between items-start">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-4 mb-2">
-                                <h3 className="text-lg font-semibold text-gray-900">
-                                  {loan.book?.title || "Libro no encontrado"}
-                                </h3>
-                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClass}`}>
-                                  {isOverdue ? "Vencido" : "Activo"}
-                                </span>
-                              </div>
-                              <p className="text-gray-600 mb-1">Autor: {loan.book?.author || "Desconocido"}</p>
-                              <p className="text-gray-600 mb-1">Miembro: {loan.member?.name || "Miembro no encontrado"}</p>
-                              <p className="text-gray-600 mb-1">
-                                Biblioteca: {loan.library?.name || loan.book?.library?.name || "No disponible"}
-                              </p>
-                              <div className="flex flex-wrap gap-4 text-sm text-gray-500">
-                                <span>Prestado: {loanDateLabel ?? "Fecha no disponible"}</span>
-                                {hasReturnDate && <span>Fecha objetivo: {returnDateLabel}</span>}
-                              </div>
-                            </div>
-                            <div className="flex gap-2">
-                              <button
-                                onClick={() => void handleReturnLoan(loan.id)}
-                                className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm"
-                              >
-                                Devolver
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      )
-                    })}
+                            return (
+                              <tr key={loan.id} className="hover:bg-gray-50">
+                                <td className="px-4 py-3">
+                                  <p className="font-medium text-gray-900">
+                                    {loan.book?.title || "Libro no encontrado"}
+                                  </p>
+                                  <p className="text-xs text-gray-500">
+                                    {loan.book?.author || "Autor desconocido"}
+                                    {loan.copy && ` · Ejemplar ${loan.copy.barcode}`}
+                                  </p>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-600">
+                                  {loan.member?.name || "Miembro no encontrado"}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-600">
+                                  {loan.library?.name || "No disponible"}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-500">
+                                  {formatDate(loan.loanDate) ?? "Fecha no disponible"}
+                                </td>
+                                <td className="px-4 py-3 text-sm">
+                                  <span className="text-gray-500">{formatLoanDueDate(loan) ?? "Sin fecha"}</span>
+                                  <span
+                                    className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${
+                                      isOverdue ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                                    }`}
+                                  >
+                                    {isOverdue ? "Vencido" : "Activo"}
+                                  </span>
+                                  {renewalCount > 0 && (
+                                    <details className="mt-1 text-xs text-gray-500">
+                                      <summary className="cursor-pointer">
+                                        Renovado {renewalCount} de {getLoanPolicy(loan).maxRenewals}
+                                      </summary>
+                                      <ul className="mt-1 space-y-1">
+                                        {(loan.renewals ?? []).map((renewal, index) => (
+                                          <li key={`${renewal.renewedAt ?? index}`}>
+                                            {formatDate(renewal.renewedAt) ?? "Fecha no disponible"}:{" "}
+                                            {formatDate(renewal.previousDueDate) ?? "—"} →{" "}
+                                            {formatDate(renewal.dueDate) ?? "—"}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </details>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                  {can("loans:renew") && (
+                                    <button
+                                      type="button"
+                                      onClick={() => void handleRenewLoan(loan)}
+                                      disabled={renewalBlockReason !== null || renewingLoanId !== null}
+                                      title={renewalBlockReason ?? undefined}
+                                      className="mr-2 bg-purple-100 text-purple-700 px-4 py-2 rounded-md hover:bg-purple-200 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      {renewingLoanId === loan.id ? "Renovando..." : "Renovar"}
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => void handleReturnLoan(loan.id)}
+                                    disabled={!can("loans:return")}
+                                    title={can("loans:return") ? undefined : "Tu rol no permite registrar devoluciones"}
+                                    className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                  >
+                                    Devolver
+                                  </button>
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      total={activeLoansCount}
+                      onPageChange={setPage}
+                      disabled={activeLoansPageQuery.isFetching}
+                      className="px-4 py-3 border-t"
+                    />
                   </div>
                 )}
               </div>
 
               {returnedLoans.length > 0 && (
                 <div>
-                  <h2 className="text-xl font-semibold text-gray-900 mb-4">Historial de Devoluciones</h2>
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold text-gray-900">Devoluciones recientes</h2>
+                    {returnedLoansCount > returnedLoans.length && (
+                      <Link
+                        href="/loans/history?status=returned"
+                        className="text-sm text-purple-600 hover:text-purple-800 font-medium"
+                      >
+                        Ver las {returnedLoansCount} devoluciones
+                      </Link>
+                    )}
+                  </div>
                   <div className="grid gap-4">
-                    {returnedLoans.slice(0, 5).map((loan) => {
+                    {returnedLoans.map((loan) => {
                       const loanDateLabel = formatDate(loan.loanDate)
                       const returnDateLabel = formatDate(loan.returnDate)
 
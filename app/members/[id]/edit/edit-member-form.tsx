@@ -4,11 +4,15 @@ import type React from "react"
 
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { membersApi, ApiError, authApi } from "@/lib/api"
+import { membersApi } from "@/lib/api"
 import type { CreateMemberDto, Member } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const MEMBER_FORM_FIELDS = ["name", "email", "phone"] as const
+
 interface EditMemberFormProps {
   memberId: string
 }
@@ -24,6 +28,7 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
   const [isLoadingMember, setIsLoadingMember] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof MEMBER_FORM_FIELDS)[number]>>({})
 
   useEffect(() => {
     let isActive = true
@@ -47,13 +52,6 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
 
         console.error("Error loading member:", err)
 
-        if (err instanceof ApiError && err.statusCode === 401) {
-          authApi.clearToken()
-          setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-          router.replace("/auth/login")
-          return
-        }
-
         const message = err instanceof Error ? err.message : "No se pudo cargar el miembro"
         setError(message)
       } finally {
@@ -68,7 +66,7 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
     return () => {
       isActive = false
     }
-  }, [memberId, router])
+  }, [memberId])
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target
@@ -76,6 +74,7 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
       ...previous,
       [name]: value,
     }))
+    setFieldErrors((previous) => ({ ...previous, [name]: undefined }))
   }
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -87,6 +86,7 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
 
     setIsSaving(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       const trimmedName = formData.name.trim()
@@ -120,15 +120,13 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
     } catch (err) {
       console.error("Error updating member:", err)
 
-      if (err instanceof ApiError && err.statusCode === 401) {
-        authApi.clearToken()
-        setError("Tu sesión ha expirado. Redirigiendo al inicio de sesión...")
-        router.replace("/auth/login")
-        return
-      }
-
-      const message = err instanceof Error ? err.message : "Error al actualizar el miembro"
-      setError(message)
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(
+        err,
+        MEMBER_FORM_FIELDS,
+        "Error al actualizar el miembro",
+      )
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsSaving(false)
     }
@@ -163,10 +161,11 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
           value={formData.name}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.name ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="Ingresa el nombre completo"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.name} />
       </div>
 
       <div>
@@ -180,10 +179,11 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
           value={formData.email}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.email ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="ejemplo@correo.com"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.email} />
       </div>
 
       <div>
@@ -196,10 +196,11 @@ export function EditMemberForm({ memberId }: EditMemberFormProps) {
           name="phone"
           value={formData.phone ?? ""}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.phone ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="Ingresa el número de teléfono"
           disabled={isSaving}
         />
+        <FieldError message={fieldErrors.phone} />
       </div>
 
       <div className="flex gap-4 pt-4">
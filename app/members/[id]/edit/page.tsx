@@ -2,6 +2,7 @@ import { Suspense } from "react"
 import Link from "next/link"
 import { notFound } from "next/navigation"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { RequirePermission } from "@/components/require-permission"
 import { EditMemberForm } from "./edit-member-form"
 
 interface EditMemberPageProps {
@@ -39,7 +40,9 @@ export default function EditMemberPage({ params }: EditMemberPageProps) {
                 </div>
               }
             >
-              <EditMemberForm memberId={memberId} />
+              <RequirePermission permission="members:write">
+                <EditMemberForm memberId={memberId} />
+              </RequirePermission>
             </Suspense>
           </div>
         </div>
@@ -0,0 +1,463 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { booksApi, finesApi, librariesApi, loansApi, membersApi } from "@/lib/api"
+import {
+  FINE_STATUS_LABELS,
+  buildFineLedger,
+  formatFineAmount,
+  getOutstandingFinesTotal,
+  type FineLedgerEntry,
+} from "@/lib/fines"
+import { compareLoansByDateDesc, formatLoanDate, formatLoanDueDate, isLoanOverdue } from "@/lib/loans"
+import { queryKeys } from "@/lib/query"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useQuery } from "@/hooks/use-query"
+
+interface MemberProfileProps {
+  memberId: string
+}
+
+export function MemberProfile({ memberId }: MemberProfileProps) {
+  const { can } = usePermissions()
+  const memberQuery = useQuery(queryKeys.member(memberId), (signal) => membersApi.getById(memberId, { signal }))
+  const loansQuery = useQuery(queryKeys.loans({ memberId }), (signal) => loansApi.getAll({ memberId }, { signal }))
+  const finesQuery = useQuery(queryKeys.fines({ memberId }), (signal) => finesApi.getAll({ memberId }, { signal }))
+  // Para completar los préstamos cuyo backend no incluye `book` ni `library`
+  const booksQuery = useQuery(queryKeys.books(), (signal) => booksApi.getAll({}, { signal }))
+  const librariesQuery = useQuery(queryKeys.libraries(), (signal) => librariesApi.getAll({ signal }))
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [returningLoanId, setReturningLoanId] = useState<string | null>(null)
+  const [updatingFineLoanId, setUpdatingFineLoanId] = useState<string | null>(null)
+
+  const member = memberQuery.data
+
+  const loans = useMemo(() => {
+    const booksById = new Map((booksQuery.data ?? []).map((book) => [book.id, book]))
+    const librariesById = new Map((librariesQuery.data ?? []).map((library) => [library.id, library]))
+
+    return (
+      (loansQuery.data ?? [])
+        // Por si el backend ignora el filtro `memberId`
+        .filter((loan) => loan.memberId === memberId)
+        .map((loan) => {
+          const book = loan.book ?? booksById.get(loan.bookId)
+          const library = loan.library ?? book?.library ?? (book ? librariesById.get(book.libraryId) : undefined)
+          return { ...loan, book, library, member: loan.member ?? memberQuery.data }
+        })
+        .sort(compareLoansByDateDesc)
+    )
+  }, [booksQuery.data, librariesQuery.data, loansQuery.data, memberId, memberQuery.data])
+
+  const now = new Date()
+  const activeLoans = loans.filter((loan) => !loan.isReturned)
+  const returnedLoans = loans.filter((loan) => loan.isReturned)
+  const overdueLoansCount = activeLoans.filter((loan) => isLoanOverdue(loan, now)).length
+  const fineLedger = buildFineLedger(
+    loans,
+    (finesQuery.data ?? []).filter((fine) => fine.memberId === memberId),
+    now,
+  )
+  const outstandingFines = getOutstandingFinesTotal(fineLedger)
+
+  const queries = [memberQuery, loansQuery, finesQuery, booksQuery, librariesQuery]
+  const loadError = queries.find((query) => query.error)?.error
+  const loadErrorMessage = loadError instanceof Error ? loadError.message : "No se pudo cargar el miembro"
+  const error = actionError ?? (loadError ? loadErrorMessage : null)
+  const isLoading = memberQuery.isLoading || loansQuery.isLoading
+
+  const handleReturnLoan = async (loanId: string) => {
+    setReturningLoanId(loanId)
+    setActionError(null)
+
+    try {
+      // La caché de consultas se invalida tras la mutación y recarga los préstamos del miembro
+      await loansApi.returnLoan(loanId)
+    } catch (err) {
+      console.error("Error returning loan:", err)
+
+      const message = err instanceof Error ? err.message : "Error al devolver el préstamo"
+      setActionError(message)
+    } finally {
+      setReturningLoanId(null)
+    }
+  }
+
+  const handleSettleFine = async (entry: FineLedgerEntry, status: "paid" | "waived") => {
+    let note: string | undefined
+    if (status === "waived") {
+      const reason = window.prompt("Motivo de la condonación (opcional)")
+      if (reason === null) {
+        return
+      }
+      note = reason.trim() || undefined
+    }
+
+    setUpdatingFineLoanId(entry.loanId)
+    setActionError(null)
+
+    try {
+      if (entry.fineId) {
+        await (status === "paid" ? finesApi.pay(entry.fineId) : finesApi.waive(entry.fineId, note))
+      } else {
+        // Multa calculada en el cliente: se registra directamente con su estado final
+        await finesApi.create({ loanId: entry.loanId, memberId, amount: entry.amount, status, note })
+      }
+    } catch (err) {
+      console.error("Error updating fine:", err)
+
+      const message = err instanceof Error ? err.message : "Error al actualizar la multa"
+      setActionError(message)
+    } finally {
+      setUpdatingFineLoanId(null)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div className="flex items-center gap-4">
+              <Link href="/members" className="text-gray-600 hover:text-gray-800 transition-colors">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">{member?.name ?? "Perfil del miembro"}</h1>
+            </div>
+            {member && (
+              <div className="flex gap-4">
+                {can("members:write") && (
+                  <Link
+                    href={`/members/${member.id}/edit`}
+                    className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+                  >
+                    Editar
+                  </Link>
+                )}
+                {can("loans:create") && (
+                  <Link
+                    href={`/loans?memberId=${encodeURIComponent(member.id)}`}
+                    className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 transition-colors"
+                  >
+                    Nuevo préstamo
+                  </Link>
+                )}
+              </div>
+            )}
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-green-600" />
+            </div>
+          ) : !member ? (
+            !error && <ErrorMessage message="Miembro no encontrado" />
+          ) : (
+            <>
+              <div className="grid md:grid-cols-4 gap-4 mb-8">
+                <div className="bg-white rounded-lg shadow-md p-4 md:col-span-1">
+                  <h2 className="text-sm font-semibold text-gray-900 mb-2">Contacto</h2>
+                  <p className="text-sm text-gray-600 break-all">{member.email}</p>
+                  <p className="text-sm text-gray-600">{member.phone || "Sin teléfono"}</p>
+                  {member.createdAt && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Miembro desde {new Date(member.createdAt).toLocaleDateString("es-ES")}
+                    </p>
+                  )}
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-blue-600">{loans.length}</div>
+                  <div className="text-sm text-gray-600">Préstamos totales</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-purple-600">{activeLoans.length}</div>
+                  <div className="text-sm text-gray-600">En préstamo</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-md p-4">
+                  <div className="text-2xl font-bold text-red-600">{overdueLoansCount}</div>
+                  <div className="text-sm text-gray-600">Vencidos</div>
+                </div>
+              </div>
+
+              <div className="mb-8">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Préstamos activos</h2>
+                {activeLoans.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    Este miembro no tiene libros en préstamo
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Libro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Biblioteca
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Prestado
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Fecha objetivo
+                            </th>
+                            <th scope="col" className="px-4 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {activeLoans.map((loan) => {
+                            const isOverdue = isLoanOverdue(loan, now)
+
+                            return (
+                              <tr key={loan.id} className="hover:bg-gray-50">
+                                <td className="px-4 py-3">
+                                  <Link
+                                    href={`/books/${loan.bookId}`}
+                                    className="font-medium text-gray-900 hover:text-blue-600"
+                                  >
+                                    {loan.book?.title || "Libro no encontrado"}
+                                  </Link>
+                                  <p className="text-xs text-gray-500">{loan.book?.author || "Autor desconocido"}</p>
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-600">
+                                  {loan.library?.name || "No disponible"}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-gray-500">
+                                  {formatLoanDate(loan.loanDate) ?? "Fecha no disponible"}
+                                </td>
+                                <td className="px-4 py-3 text-sm">
+                                  <span className="text-gray-500">{formatLoanDueDate(loan) ?? "Sin fecha"}</span>
+                                  <span
+                                    className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${
+                                      isOverdue ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                                    }`}
+                                  >
+                                    {isOverdue ? "Vencido" : "Activo"}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-right">
+                                  {can("loans:return") && (
+                                    <button
+                                      type="button"
+                                      onClick={() => void handleReturnLoan(loan.id)}
+                                      disabled={returningLoanId !== null}
+                                      className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      {returningLoanId === loan.id ? "Devolviendo..." : "Devolver"}
+                                    </button>
+                                  )}
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Historial de devoluciones</h2>
+                {returnedLoans.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    Aún no hay préstamos devueltos
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Libro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Biblioteca
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Prestado
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Devuelto
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {returnedLoans.map((loan) => (
+                            <tr key={loan.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3">
+                                <Link href={`/books/${loan.bookId}`} className="text-gray-900 hover:text-blue-600">
+                                  {loan.book?.title || "Libro no encontrado"}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600">
+                                {loan.library?.name || "No disponible"}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-500">
+                                {formatLoanDate(loan.loanDate) ?? "Fecha no disponible"}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-500">
+                                {formatLoanDate(loan.returnDate) ?? "Fecha no disponible"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-8">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">Multas</h2>
+                  {outstandingFines > 0 && (
+                    <span className="text-sm font-medium text-red-600">
+                      Pendiente: {formatFineAmount(outstandingFines)}
+                    </span>
+                  )}
+                </div>
+                {fineLedger.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+                    Este miembro no tiene multas
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Libro
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Días de atraso
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Importe
+                            </th>
+                            <th
+                              scope="col"
+                              className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                            >
+                              Estado
+                            </th>
+                            <th scope="col" className="px-4 py-3" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {fineLedger.map((entry) => (
+                            <tr key={entry.fineId ?? `loan-${entry.loanId}`} className="hover:bg-gray-50">
+                              <td className="px-4 py-3">
+                                {entry.loan ? (
+                                  <Link
+                                    href={`/books/${entry.loan.bookId}`}
+                                    className="text-gray-900 hover:text-blue-600"
+                                  >
+                                    {entry.loan.book?.title || "Libro no encontrado"}
+                                  </Link>
+                                ) : (
+                                  <span className="text-gray-500">Préstamo no encontrado</span>
+                                )}
+                                {entry.note && <p className="text-xs text-gray-500">{entry.note}</p>}
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-600">{entry.daysLate || "—"}</td>
+                              <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                                {formatFineAmount(entry.amount)}
+                              </td>
+                              <td className="px-4 py-3 text-sm">
+                                <span
+                                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                    entry.status === "paid"
+                                      ? "bg-green-100 text-green-800"
+                                      : entry.status === "waived"
+                                        ? "bg-gray-100 text-gray-800"
+                                        : entry.isAccruing
+                                          ? "bg-yellow-100 text-yellow-800"
+                                          : "bg-red-100 text-red-800"
+                                  }`}
+                                >
+                                  {entry.isAccruing ? "En curso" : FINE_STATUS_LABELS[entry.status]}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-right whitespace-nowrap">
+                                {/* Las multas en curso se cobran una vez devuelto el libro */}
+                                {can("fines:manage") && entry.status === "pending" && !entry.isAccruing && (
+                                  <div className="flex justify-end gap-2">
+                                    <button
+                                      type="button"
+                                      onClick={() => void handleSettleFine(entry, "paid")}
+                                      disabled={updatingFineLoanId !== null}
+                                      className="bg-green-600 text-white px-3 py-1 rounded-md hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      {updatingFineLoanId === entry.loanId ? "Guardando..." : "Registrar pago"}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => void handleSettleFine(entry, "waived")}
+                                      disabled={updatingFineLoanId !== null}
+                                      className="bg-gray-100 text-gray-700 px-3 py-1 rounded-md hover:bg-gray-200 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                      Condonar
+                                    </button>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
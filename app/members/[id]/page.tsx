@@ -0,0 +1,16 @@
+import { notFound } from "next/navigation"
+import { MemberProfile } from "./member-profile"
+
+interface MemberProfilePageProps {
+  params: { id?: string }
+}
+
+export default function MemberProfilePage({ params }: MemberProfilePageProps) {
+  const memberId = params.id
+
+  if (!memberId) {
+    notFound()
+  }
+
+  return <MemberProfile memberId={memberId} />
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { membersApi } from "@/lib/api"
+import { MEMBER_EXPORT_COLUMNS } from "@/lib/export"
+import { fetchAllPages } from "@/lib/pagination"
+import { queryKeys } from "@/lib/query"
+import type { MemberQuery, MemberSortField } from "@/lib/types"
+import { ExportButtons } from "@/components/export-buttons"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { Pagination } from "@/components/ui/pagination"
+import { SortableHeader } from "@/components/ui/sortable-header"
+import { usePermissions } from "@/hooks/use-permissions"
+import { usePaginationParams } from "@/hooks/use-pagination-params"
+import { useQuery } from "@/hooks/use-query"
+
+const MEMBER_SORT_FIELDS: readonly MemberSortField[] = ["name", "email", "createdAt"]
+
+export function MembersPageContent() {
+  const router = useRouter()
+  const { can } = usePermissions()
+  const { page, limit, sort, order, setPage, toggleSort } = usePaginationParams(MEMBER_SORT_FIELDS, {
+    sort: "name",
+    order: "asc",
+  })
+  const memberQuery = { page, limit, sort, order }
+  const membersQuery = useQuery(queryKeys.memberPage(memberQuery), (signal) =>
+    membersApi.getPage(memberQuery, { signal }),
+  )
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const members = membersQuery.data?.items ?? []
+  const totalMembers = membersQuery.data?.total ?? 0
+  const totalPages = membersQuery.data?.totalPages ?? 1
+  const loadErrorMessage =
+    membersQuery.error instanceof Error ? membersQuery.error.message : "Error al cargar los miembros"
+  const error = actionError ?? (membersQuery.error ? loadErrorMessage : null)
+  const isLoading = membersQuery.isLoading || isDeleting
+
+  useEffect(() => {
+    // Tras eliminar el último miembro de la última página, vuelve a la última página existente
+    if (page > totalPages) {
+      setPage(totalPages)
+    }
+  }, [page, setPage, totalPages])
+
+  const loadMembersForExport = () =>
+    fetchAllPages((query: MemberQuery) => membersApi.getPage(query), { sort, order })
+
+  const handleEdit = (memberId: string) => {
+    router.push(`/members/${memberId}/edit`)
+  }
+
+  const handleDelete = async (memberId: string) => {
+    const memberToDelete = members.find((item) => item.id === memberId)
+    const confirmationMessage = memberToDelete
+      ? `¿Estás seguro de que deseas eliminar a "${memberToDelete.name}"?`
+      : "¿Estás seguro de que deseas eliminar este miembro?"
+
+    const confirmed = window.confirm(confirmationMessage)
+    if (!confirmed) {
+      return
+    }
+
+    setIsDeleting(true)
+    setActionError(null)
+
+    try {
+      // La caché de consultas se invalida tras la mutación y recarga el listado
+      await membersApi.delete(memberId)
+    } catch (err) {
+      console.error("Error deleting member:", err)
+
+      const message = err instanceof Error ? err.message : "Error al eliminar el miembro"
+      setActionError(message)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Gestión de Miembros</h1>
+              <p className="text-gray-600 mt-2">Administra los miembros de la biblioteca</p>
+            </div>
+            <div className="flex gap-4">
+              <Link
+                href="/"
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Volver al Inicio
+              </Link>
+              {can("members:write") && (
+                <Link
+                  href="/members/new"
+                  className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors"
+                >
+                  Agregar Miembro
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {error && <ErrorMessage message={error} className="mb-6" />}
+
+          {!isLoading && members.length > 0 && (
+            <div className="flex justify-end mb-4">
+              <ExportButtons
+                baseName="miembros"
+                columns={MEMBER_EXPORT_COLUMNS}
+                loadItems={loadMembersForExport}
+                onError={setActionError}
+              />
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner className="w-8 h-8 text-green-600" />
+            </div>
+          ) : members.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <svg className="w-12 h-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No hay miembros registrados</h3>
+              {can("members:write") ? (
+                <>
+                  <p className="text-gray-600 mb-4">Comienza agregando el primer miembro a la biblioteca</p>
+                  <Link
+                    href="/members/new"
+                    className="inline-flex items-center bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors"
+                  >
+                    Agregar Primer Miembro
+                  </Link>
+                </>
+              ) : (
+                <p className="text-gray-600">Un administrador debe registrar a los miembros de la biblioteca</p>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <SortableHeader label="Nombre" field="name" sort={sort} order={order} onSort={toggleSort} />
+                      <SortableHeader label="Correo" field="email" sort={sort} order={order} onSort={toggleSort} />
+                      <th
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500"
+                      >
+                        Teléfono
+                      </th>
+                      <SortableHeader
+                        label="Registrado"
+                        field="createdAt"
+                        sort={sort}
+                        order={order}
+                        onSort={toggleSort}
+                      />
+                      <th scope="col" className="px-4 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {members.map((member) => (
+                      <tr key={member.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                              <span className="text-green-600 font-semibold text-sm">
+                                {member.name.charAt(0).toUpperCase()}
+                              </span>
+                            </div>
+                            <Link
+                              href={`/members/${member.id}`}
+                              className="font-medium text-gray-900 hover:text-green-600"
+                            >
+                              {member.name}
+                            </Link>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{member.email}</td>
+                        <td className="px-4 py-3 text-sm text-gray-500">{member.phone ?? "—"}</td>
+                        <td className="px-4 py-3 text-xs text-gray-500">
+                          {member.createdAt
+                            ? new Date(member.createdAt).toLocaleDateString("es-ES")
+                            : "Fecha no disponible"}
+                        </td>
+                        <td className="px-4 py-3 text-right text-xs">
+                          <div className="flex justify-end gap-2">
+                            {can("members:write") && (
+                              <button
+                                onClick={() => handleEdit(member.id)}
+                                className="text-green-600 hover:text-green-800 font-medium"
+                              >
+                                Editar
+                              </button>
+                            )}
+                            {can("members:delete") && (
+                              <button
+                                onClick={() => handleDelete(member.id)}
+                                className="text-red-600 hover:text-red-800 font-medium"
+                              >
+                                Eliminar
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <Pagination
+                page={page}
+                totalPages={totalPages}
+                total={totalMembers}
+                onPageChange={setPage}
+                disabled={membersQuery.isFetching}
+                className="px-4 py-3 border-t"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
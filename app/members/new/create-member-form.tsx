@@ -6,13 +6,18 @@ import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { membersApi } from "@/lib/api"
 import type { CreateMemberDto } from "@/lib/types"
+import { mapApiErrorToForm, type FieldErrors } from "@/lib/form-errors"
 import { ErrorMessage } from "@/components/ui/error-message"
+import { FieldError } from "@/components/ui/field-error"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 
+const MEMBER_FORM_FIELDS = ["name", "email", "phone"] as const
+
 export function CreateMemberForm() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<(typeof MEMBER_FORM_FIELDS)[number]>>({})
   const [formData, setFormData] = useState<CreateMemberDto>({
     name: "",
     email: "",
@@ -25,12 +30,14 @@ export function CreateMemberForm() {
       ...prev,
       [name]: value,
     }))
+    setFieldErrors((prev) => ({ ...prev, [name]: undefined }))
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
     setError(null)
+    setFieldErrors({})
 
     try {
       // Clean up the data before sending
@@ -44,9 +51,15 @@ export function CreateMemberForm() {
       await membersApi.create(dataToSend)
       router.push("/members")
       router.refresh()
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error creating member:", err)
-      setError(err.message || "Error al crear el miembro")
+      const { fieldErrors: apiFieldErrors, formError } = mapApiErrorToForm(
+        err,
+        MEMBER_FORM_FIELDS,
+        "Error al crear el miembro",
+      )
+      setFieldErrors(apiFieldErrors)
+      setError(formError)
     } finally {
       setIsLoading(false)
     }
@@ -71,10 +84,11 @@ export function CreateMemberForm() {
           value={formData.name}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.name ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="Ingresa el nombre completo"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.name} />
       </div>
 
       {/* Email Field */}
@@ -89,10 +103,11 @@ export function CreateMemberForm() {
           value={formData.email}
           onChange={handleInputChange}
           required
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.email ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="ejemplo@correo.com"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.email} />
       </div>
 
       {/* Phone Field */}
@@ -106,10 +121,11 @@ export function CreateMemberForm() {
           name="phone"
           value={formData.phone}
           onChange={handleInputChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          className={`w-full px-3 py-2 border ${fieldErrors.phone ? "border-red-500" : "border-gray-300"} rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500`}
           placeholder="Ingresa el número de teléfono"
           disabled={isLoading}
         />
+        <FieldError message={fieldErrors.phone} />
       </div>
 
       {/* Form Actions */}
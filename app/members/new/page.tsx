@@ -1,4 +1,5 @@
 import Link from "next/link"
+import { RequirePermission } from "@/components/require-permission"
 import { CreateMemberForm } from "./create-member-form"
 
 export default function NewMemberPage() {
@@ -21,7 +22,9 @@ export default function NewMemberPage() {
 
           {/* Form */}
           <div className="bg-white rounded-lg shadow-md p-6">
-            <CreateMemberForm />
+            <RequirePermission permission="members:write">
+              <CreateMemberForm />
+            </RequirePermission>
           </div>
         </div>
       </div>
@@ -0,0 +1,95 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname, useRouter } from "next/navigation"
+import { authApi } from "@/lib/api"
+import { LOGIN_PATH } from "@/lib/auth-redirect"
+import { ROLE_LABELS } from "@/lib/permissions"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useSession } from "@/hooks/use-session"
+
+const NAVIGATION_LINKS = [
+  { href: "/libraries", label: "Bibliotecas" },
+  { href: "/books", label: "Libros" },
+  { href: "/members", label: "Miembros" },
+  { href: "/loans", label: "Préstamos" },
+  { href: "/holds", label: "Reservas" },
+] as const
+
+/** Encabezado común del panel con la navegación, el usuario actual y el cierre de sesión */
+export function AppHeader() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const { user, isAuthenticated, isReady } = useSession()
+  const { roles } = usePermissions()
+
+  if (pathname === LOGIN_PATH) {
+    return null
+  }
+
+  const handleLogout = () => {
+    authApi.logout()
+    router.replace(LOGIN_PATH)
+    router.refresh()
+  }
+
+  const displayName = user?.name ?? user?.email ?? "Usuario"
+
+  return (
+    <header className="bg-white border-b border-gray-200">
+      <div className="container mx-auto px-4">
+        <div className="max-w-6xl mx-auto flex flex-wrap items-center justify-between gap-4 py-3">
+          <div className="flex flex-wrap items-center gap-6">
+            <Link href="/" className="text-lg font-semibold text-gray-900">
+              Biblioteca
+            </Link>
+            <nav className="flex flex-wrap gap-4 text-sm">
+              {NAVIGATION_LINKS.map((link) => {
+                const isActive = pathname === link.href || pathname.startsWith(`${link.href}/`)
+
+                return (
+                  <Link
+                    key={link.href}
+                    href={link.href}
+                    className={`transition-colors ${
+                      isActive ? "text-purple-700 font-medium" : "text-gray-600 hover:text-gray-900"
+                    }`}
+                  >
+                    {link.label}
+                  </Link>
+                )
+              })}
+            </nav>
+          </div>
+
+          {isReady &&
+            (isAuthenticated ? (
+              <div className="flex items-center gap-4">
+                <div className="text-right">
+                  <p className="text-sm font-medium text-gray-900">{displayName}</p>
+                  <p className="text-xs text-gray-500">
+                    {user?.name && user.email ? `${user.email} · ` : ""}
+                    {roles.map((role) => ROLE_LABELS[role]).join(", ")}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleLogout}
+                  className="bg-gray-100 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-200 transition-colors text-sm"
+                >
+                  Cerrar sesión
+                </button>
+              </div>
+            ) : (
+              <Link
+                href={LOGIN_PATH}
+                className="bg-purple-600 text-white px-3 py-2 rounded-md hover:bg-purple-700 transition-colors text-sm"
+              >
+                Iniciar sesión
+              </Link>
+            ))}
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { usePathname, useRouter } from "next/navigation"
+import { configureUnauthorizedHandler, subscribeToAuthToken } from "@/lib/api"
+import { LOGIN_PATH, REDIRECT_PARAM, buildLoginUrl, getSafeRedirectPath } from "@/lib/auth-redirect"
+
+/**
+ * Registra el manejador global de sesión expirada: ante cualquier 401 del backend se limpia la
+ * sesión y se redirige al inicio de sesión recordando la página en la que estaba el usuario.
+ * También sigue los inicios y cierres de sesión hechos en otras pestañas.
+ */
+export function AuthSessionHandler() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const isRedirectingRef = useRef(false)
+
+  useEffect(() => {
+    // Al cambiar de página la redirección anterior ya se completó
+    isRedirectingRef.current = false
+  }, [pathname])
+
+  useEffect(() => {
+    configureUnauthorizedHandler(() => {
+      // Varias solicitudes pueden fallar a la vez; basta con una redirección
+      if (isRedirectingRef.current || window.location.pathname === LOGIN_PATH) {
+        return
+      }
+
+      isRedirectingRef.current = true
+      router.replace(buildLoginUrl(`${window.location.pathname}${window.location.search}`))
+    })
+
+    return () => {
+      configureUnauthorizedHandler(null)
+    }
+  }, [router])
+
+  useEffect(() => {
+    return subscribeToAuthToken((token, source) => {
+      if (source !== "storage") {
+        return
+      }
+
+      const isOnLoginPage = window.location.pathname === LOGIN_PATH
+
+      if (!token && !isOnLoginPage) {
+        // Cierre de sesión voluntario en otra pestaña: no hay página a la que volver
+        router.replace(LOGIN_PATH)
+      } else if (token && isOnLoginPage) {
+        const nextPath = new URLSearchParams(window.location.search).get(REDIRECT_PARAM)
+        router.replace(getSafeRedirectPath(nextPath))
+      }
+    })
+  }, [router])
+
+  return null
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useState } from "react"
+import { exportRecords, type ExportColumn, type ExportFormat } from "@/lib/export"
+
+interface ExportButtonsProps<T> {
+  /** Prefijo del archivo descargado, p. ej. `libros` */
+  baseName: string
+  columns: ExportColumn<T>[]
+  /** Carga los registros de la vista actual (todas las páginas con los filtros aplicados) */
+  loadItems: () => Promise<T[]>
+  onError: (message: string) => void
+  disabled?: boolean
+}
+
+export function ExportButtons<T>({ baseName, columns, loadItems, onError, disabled = false }: ExportButtonsProps<T>) {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format)
+
+    try {
+      exportRecords(await loadItems(), columns, format, baseName)
+    } catch (err) {
+      console.error("Error exporting data:", err)
+
+      onError(err instanceof Error ? err.message : "No se pudieron exportar los datos")
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      {(["csv", "json"] as const).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => void handleExport(format)}
+          disabled={disabled || exportingFormat !== null}
+          className="bg-white border border-gray-300 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exportingFormat === format ? "Exportando..." : `Exportar ${format.toUpperCase()}`}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { holdsApi } from "@/lib/api"
+import { getHoldQueue } from "@/lib/holds"
+import type { Book, CreateHoldDto, Hold, Loan, Member } from "@/lib/types"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+
+interface PlaceHoldFormProps {
+  /** Libros que se pueden reservar; con uno solo no se muestra el selector */
+  books: Book[]
+  members: Member[]
+  /** Reservas activas, para avisar de duplicados e indicar el lugar en la cola */
+  holds: Hold[]
+  /** Préstamos activos de los libros: quien ya tiene el libro no puede reservarlo */
+  activeLoans?: Loan[]
+  initialBookId?: string
+  onHoldPlaced?: () => Promise<void> | void
+}
+
+export function PlaceHoldForm({
+  books,
+  members,
+  holds,
+  activeLoans = [],
+  initialBookId,
+  onHoldPlaced,
+}: PlaceHoldFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [formData, setFormData] = useState<CreateHoldDto>({
+    bookId: initialBookId ?? (books.length === 1 ? (books[0]?.id ?? "") : ""),
+    memberId: "",
+  })
+
+  useEffect(() => {
+    // Los enlaces "Reservar" del catálogo llegan con el libro ya elegido
+    if (initialBookId) {
+      setFormData((prev) => ({ ...prev, bookId: initialBookId }))
+    }
+  }, [initialBookId])
+
+  const handleFieldChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }))
+    setSuccess(null)
+  }
+
+  const queue = formData.bookId ? getHoldQueue(holds, formData.bookId) : []
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(null)
+
+    if (queue.some((hold) => hold.memberId === formData.memberId)) {
+      setError("El miembro ya tiene una reserva activa para este libro")
+      return
+    }
+
+    if (activeLoans.some((loan) => loan.bookId === formData.bookId && loan.memberId === formData.memberId)) {
+      setError("El miembro ya tiene este libro en préstamo")
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      await holdsApi.create(formData)
+      setSuccess(`Reserva registrada: posición ${queue.length + 1} en la cola`)
+      setFormData((prev) => ({ bookId: books.length === 1 ? prev.bookId : "", memberId: "" }))
+      if (onHoldPlaced) {
+        await onHoldPlaced()
+      }
+    } catch (err) {
+      console.error("Error placing hold:", err)
+
+      setError(err instanceof Error ? err.message : "Error al registrar la reserva")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selectClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && <ErrorMessage message={error} />}
+      {success && <p className="text-sm text-green-700">{success}</p>}
+
+      <div className={`grid gap-4 ${books.length === 1 ? "" : "md:grid-cols-2"}`}>
+        {books.length !== 1 && (
+          <div>
+            <label htmlFor="holdBookId" className="block text-sm font-medium text-gray-700 mb-2">
+              Libro prestado
+            </label>
+            <select
+              id="holdBookId"
+              name="bookId"
+              value={formData.bookId}
+              onChange={handleFieldChange}
+              required
+              className={selectClassName}
+              disabled={isLoading}
+            >
+              <option value="">Selecciona un libro...</option>
+              {books.map((book) => (
+                <option key={book.id} value={book.id}>
+                  {book.title} - {book.author}
+                </option>
+              ))}
+            </select>
+            {books.length === 0 && (
+              <p className="text-xs text-gray-500 mt-2">No hay libros prestados: todos se pueden llevar ahora mismo.</p>
+            )}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="holdMemberId" className="block text-sm font-medium text-gray-700 mb-2">
+            Miembro
+          </label>
+          <select
+            id="holdMemberId"
+            name="memberId"
+            value={formData.memberId}
+            onChange={handleFieldChange}
+            required
+            className={selectClassName}
+            disabled={isLoading}
+          >
+            <option value="">Selecciona un miembro...</option>
+            {members.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.name} - {member.email}
+              </option>
+            ))}
+          </select>
+          {formData.bookId && (
+            <p className="text-xs text-gray-500 mt-2">
+              {queue.length === 0
+                ? "Nadie espera este libro: será el primero de la cola"
+                : `${queue.length} ${queue.length === 1 ? "reserva" : "reservas"} por delante`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!formData.bookId || !formData.memberId || isLoading}
+          className="bg-purple-600 text-white px-6 py-2 rounded-md hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <LoadingSpinner className="w-4 h-4" />
+              Reservando...
+            </>
+          ) : (
+            "Reservar"
+          )}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import type React from "react"
+import type { Permission } from "@/lib/permissions"
+import { usePermissions } from "@/hooks/use-permissions"
+
+interface RequirePermissionProps {
+  permission: Permission
+  children: React.ReactNode
+}
+
+/** Muestra el contenido solo si el rol actual tiene el permiso; en otro caso explica por qué no */
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { can, isReady } = usePermissions()
+
+  if (!isReady) {
+    return null
+  }
+
+  if (can(permission)) {
+    return <>{children}</>
+  }
+
+  return (
+    <div className="text-center py-8">
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso restringido</h3>
+      <p className="text-gray-600">Tu rol no tiene permiso para realizar esta acción. Contacta a un administrador.</p>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { authApi, notifySessionExpired, subscribeToAuthToken } from "@/lib/api"
+import { getTokenExpiration } from "@/lib/jwt"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+
+// Margen antes de `exp` en el que se intenta renovar la sesión y, si no se puede, se avisa al usuario
+const EXPIRY_WARNING_MS = 5 * 60 * 1000
+// setTimeout desborda con demoras mayores a ~24,8 días
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+function scheduleAt(timestamp: number, callback: () => void) {
+  return window.setTimeout(callback, Math.min(Math.max(timestamp - Date.now(), 0), MAX_TIMER_DELAY_MS))
+}
+
+/**
+ * Vigila la expiración del token actual: unos minutos antes intenta renovarlo en silencio y, si no
+ * hay refresh token o la renovación falla, muestra un aviso hasta que la sesión termina.
+ */
+export function SessionExpiryWarning() {
+  const [expiresAt, setExpiresAt] = useState<number | null>(null)
+  const [showWarning, setShowWarning] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const updateExpiration = (token: string | null) => {
+      setExpiresAt(token ? getTokenExpiration(token) : null)
+      setShowWarning(false)
+    }
+
+    updateExpiration(authApi.getToken())
+    return subscribeToAuthToken(updateExpiration)
+  }, [])
+
+  useEffect(() => {
+    if (expiresAt === null) {
+      return
+    }
+
+    let isActive = true
+
+    const warningTimer = scheduleAt(expiresAt - EXPIRY_WARNING_MS, async () => {
+      // Si la renovación funciona, la suscripción al token reprograma los temporizadores
+      const token = await authApi.refresh()
+      if (isActive && !token) {
+        setNow(Date.now())
+        setShowWarning(true)
+      }
+    })
+
+    const expiryTimer = scheduleAt(expiresAt, () => {
+      notifySessionExpired()
+    })
+
+    return () => {
+      isActive = false
+      window.clearTimeout(warningTimer)
+      window.clearTimeout(expiryTimer)
+    }
+  }, [expiresAt])
+
+  useEffect(() => {
+    if (!showWarning) {
+      return
+    }
+
+    const interval = window.setInterval(() => setNow(Date.now()), 30 * 1000)
+    return () => window.clearInterval(interval)
+  }, [showWarning])
+
+  const handleExtendSession = async () => {
+    setIsRefreshing(true)
+    const token = await authApi.refresh()
+    setIsRefreshing(false)
+
+    if (!token) {
+      setNow(Date.now())
+    }
+  }
+
+  if (!showWarning || expiresAt === null) {
+    return null
+  }
+
+  const minutesLeft = Math.max(1, Math.ceil((expiresAt - now) / 60000))
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md shadow-md">
+      <p className="text-sm">
+        Tu sesión expirará en {minutesLeft} {minutesLeft === 1 ? "minuto" : "minutos"}. Guarda tus cambios o extiende la
+        sesión para no perderlos.
+      </p>
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={() => setShowWarning(false)}
+          className="px-3 py-1 text-sm rounded-md text-yellow-800 hover:bg-yellow-100 transition-colors"
+        >
+          Cerrar
+        </button>
+        <button
+          type="button"
+          onClick={handleExtendSession}
+          disabled={isRefreshing}
+          className="bg-yellow-600 text-white px-3 py-1 text-sm rounded-md hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {isRefreshing && <LoadingSpinner className="w-4 h-4" />}
+          Extender sesión
+        </button>
+      </div>
+    </div>
+  )
+}
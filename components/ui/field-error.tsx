@@ -0,0 +1,12 @@
+interface FieldErrorProps {
+  message?: string
+  className?: string
+}
+
+export function FieldError({ message, className = "" }: FieldErrorProps) {
+  if (!message) {
+    return null
+  }
+
+  return <p className={`text-xs text-red-600 mt-1 ${className}`}>{message}</p>
+}
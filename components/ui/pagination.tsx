@@ -0,0 +1,39 @@
+interface PaginationProps {
+  page: number
+  totalPages: number
+  total: number
+  onPageChange: (page: number) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function Pagination({ page, totalPages, total, onPageChange, disabled = false, className = "" }: PaginationProps) {
+  const buttonClassName =
+    "px-3 py-1 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+
+  return (
+    <div className={`flex items-center justify-between gap-4 text-sm text-gray-600 ${className}`}>
+      <span>
+        {total} {total === 1 ? "resultado" : "resultados"} · Página {page} de {totalPages}
+      </span>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          className={buttonClassName}
+        >
+          Anterior
+        </button>
+        <button
+          type="button"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= totalPages}
+          className={buttonClassName}
+        >
+          Siguiente
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import type { SortOrder } from "@/lib/types"
+
+interface SortableHeaderProps<S extends string> {
+  label: string
+  field: S
+  sort: S
+  order: SortOrder
+  onSort: (field: S) => void
+  className?: string
+}
+
+export function SortableHeader<S extends string>({
+  label,
+  field,
+  sort,
+  order,
+  onSort,
+  className = "",
+}: SortableHeaderProps<S>) {
+  const isActive = field === sort
+  const ariaSort = isActive ? (order === "asc" ? "ascending" : "descending") : "none"
+
+  return (
+    <th scope="col" aria-sort={ariaSort} className={`px-4 py-3 text-left ${className}`}>
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wider ${
+          isActive ? "text-gray-900" : "text-gray-500 hover:text-gray-700"
+        }`}
+      >
+        {label}
+        <span aria-hidden="true">{isActive ? (order === "asc" ? "↑" : "↓") : "↕"}</span>
+      </button>
+    </th>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+// Espera tras la última tecla antes de publicar un filtro de texto y pedir la página al backend
+export const SEARCH_DEBOUNCE_MS = 300
+
+/** Devuelve `value` solo cuando deja de cambiar durante `delayMs`, por ejemplo al escribir en un buscador */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedValue(value), delayMs)
+    return () => window.clearTimeout(timer)
+  }, [delayMs, value])
+
+  return debouncedValue
+}
+
+/**
+ * Texto de un filtro con debounce. El campo se edita localmente y solo se publica al dejar de escribir;
+ * si `value` cambia por otra vía (por ejemplo "Limpiar filtros"), el campo lo adopta.
+ */
+export function useDebouncedTextFilter(
+  value: string,
+  onCommit: (value: string) => void,
+  delayMs = SEARCH_DEBOUNCE_MS,
+) {
+  const [input, setInput] = useState(value)
+  const debouncedInput = useDebouncedValue(input.trim(), delayMs)
+  const committedValue = useRef(value)
+  const onCommitRef = useRef(onCommit)
+  onCommitRef.current = onCommit
+
+  useEffect(() => {
+    if (value !== committedValue.current) {
+      committedValue.current = value
+      setInput(value)
+    }
+  }, [value])
+
+  useEffect(() => {
+    if (debouncedInput !== committedValue.current) {
+      committedValue.current = debouncedInput
+      onCommitRef.current(debouncedInput)
+    }
+  }, [debouncedInput])
+
+  return [input, setInput] as const
+}
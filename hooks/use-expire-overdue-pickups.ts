@@ -0,0 +1,53 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { holdsApi } from "@/lib/api"
+import { isHoldPickupExpired } from "@/lib/holds"
+import type { Hold } from "@/lib/types"
+
+/**
+ * Expira las reservas listas cuyo plazo de recogida venció, para que el libro pase a la siguiente de la cola.
+ * Cada reserva se intenta una sola vez por montaje: si falla, se informa el error y no se reintenta en bucle.
+ */
+export function useExpireOverduePickups(holds: Hold[], enabled: boolean) {
+  const [isExpiring, setIsExpiring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const attemptedHoldIds = useRef(new Set<string>())
+
+  useEffect(() => {
+    if (!enabled || isExpiring) {
+      return
+    }
+
+    const now = new Date()
+    const overdueHolds = holds.filter(
+      (hold) => hold.status === "ready" && isHoldPickupExpired(hold, now) && !attemptedHoldIds.current.has(hold.id)
+    )
+    if (overdueHolds.length === 0) {
+      return
+    }
+
+    overdueHolds.forEach((hold) => attemptedHoldIds.current.add(hold.id))
+    setIsExpiring(true)
+
+    const expireAll = async () => {
+      try {
+        // En serie: cada expiración aparta el libro para la siguiente reserva de la cola
+        for (const hold of overdueHolds) {
+          await holdsApi.expire(hold.id, hold.bookId)
+        }
+        setError(null)
+      } catch (err) {
+        console.error("Error expiring holds:", err)
+
+        setError(err instanceof Error ? err.message : "Error al liberar las reservas vencidas")
+      } finally {
+        setIsExpiring(false)
+      }
+    }
+
+    void expireAll()
+  }, [enabled, holds, isExpiring])
+
+  return { isExpiring, error }
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useCallback } from "react"
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination"
+import type { SortOrder } from "@/lib/types"
+import { useSearchParamsState } from "./use-search-params-state"
+
+interface PaginationDefaults<S extends string> {
+  sort: S
+  order: SortOrder
+  limit?: number
+}
+
+const parsePositiveInteger = (value: string | null, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/** Página y orden de un listado sincronizados con `?page=&sort=&order=` */
+export function usePaginationParams<S extends string>(sortFields: readonly S[], defaults: PaginationDefaults<S>) {
+  const { searchParams, updateSearchParams } = useSearchParamsState()
+
+  const requestedSort = searchParams.get("sort")
+  const sort = sortFields.find((field) => field === requestedSort) ?? defaults.sort
+  const order: SortOrder =
+    searchParams.get("order") === "desc" ? "desc" : searchParams.get("order") === "asc" ? "asc" : defaults.order
+  const page = parsePositiveInteger(searchParams.get("page"), 1)
+  const limit = defaults.limit ?? DEFAULT_PAGE_SIZE
+
+  const setPage = useCallback(
+    (nextPage: number) => {
+      updateSearchParams({ page: nextPage > 1 ? nextPage : null })
+    },
+    [updateSearchParams],
+  )
+
+  // Repetir la columna invierte el orden; una columna nueva empieza ascendente. Siempre vuelve a la página 1.
+  const toggleSort = useCallback(
+    (field: S) => {
+      const nextOrder: SortOrder = field === sort && order === "asc" ? "desc" : "asc"
+      updateSearchParams({ sort: field, order: nextOrder, page: null })
+    },
+    [order, sort, updateSearchParams],
+  )
+
+  return { page, limit, sort, order, setPage, toggleSort, searchParams, updateSearchParams }
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { useCallback, useMemo } from "react"
+import { hasPermission, resolveRoles, type Permission } from "@/lib/permissions"
+import { useSession } from "./use-session"
+
+/** Roles de la sesión actual y comprobación de permisos; se actualiza al iniciar o cerrar sesión */
+export function usePermissions() {
+  const { user, isReady } = useSession()
+  const roles = useMemo(() => resolveRoles(user?.roleNames ?? []), [user])
+  const can = useCallback((permission: Permission) => hasPermission(roles, permission), [roles])
+
+  return { roles, can, isReady }
+}
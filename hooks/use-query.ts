@@ -0,0 +1,69 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react"
+import {
+  DEFAULT_STALE_TIME_MS,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  isQueryStale,
+  subscribeToQuery,
+  type QueryFetcher,
+  type QueryKey,
+  type QueryState,
+} from "@/lib/query"
+
+interface UseQueryOptions {
+  /** Con `false` no se pide nada, por ejemplo mientras falta un parámetro */
+  enabled?: boolean
+  /** Tiempo durante el que los datos guardados se usan sin volver a pedirlos */
+  staleTime?: number
+}
+
+// En el servidor la caché no se usa: cada consulta se renderiza como pendiente
+const SERVER_QUERY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false }
+const getServerSnapshot = () => SERVER_QUERY_STATE
+
+/**
+ * Lee una consulta de la caché compartida. Si los datos guardados están desactualizados se muestran
+ * igualmente mientras se revalidan en segundo plano; los componentes con la misma clave comparten la solicitud.
+ * `fetcher` recibe una señal que se cancela cuando se desmonta el último componente que usa la clave.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME_MS }: UseQueryOptions = {},
+) {
+  const hash = hashQueryKey(key)
+  // La clave y la función más recientes sin que cada render vuelva a suscribirse
+  const keyRef = useRef(key)
+  const fetcherRef = useRef(fetcher)
+  keyRef.current = key
+  fetcherRef.current = fetcher
+
+  const subscribe = useCallback((listener: () => void) => subscribeToQuery(keyRef.current, listener), [hash])
+  const getSnapshot = useCallback(() => getQueryState<T>(keyRef.current), [hash])
+  const state: QueryState<T> = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+
+  const refetch = useCallback(() => fetchQuery(keyRef.current, (signal) => fetcherRef.current(signal)), [hash])
+
+  useEffect(() => {
+    if (!enabled || !isQueryStale(keyRef.current, staleTime)) {
+      return
+    }
+
+    refetch().catch(() => {
+      // El error queda registrado en el estado de la consulta
+    })
+  }, [enabled, hash, refetch, staleTime, state.updatedAt])
+
+  return {
+    data: state.data,
+    error: state.error,
+    /** Sin datos todavía: la primera carga de esta clave */
+    isLoading: enabled && state.data === undefined && !state.error,
+    /** Hay una solicitud en vuelo, aunque se estén mostrando datos guardados */
+    isFetching: state.isFetching,
+    refetch,
+  }
+}
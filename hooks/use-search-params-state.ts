@@ -0,0 +1,36 @@
+"use client"
+
+import { useCallback } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+export type SearchParamValue = string | number | boolean | null | undefined
+
+/**
+ * Lee y actualiza la query string de la página actual. Los valores vacíos se eliminan de la URL y
+ * los cambios reemplazan la entrada del historial para que el botón "atrás" salga de la página.
+ */
+export function useSearchParamsState() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const updateSearchParams = useCallback(
+    (changes: Record<string, SearchParamValue>) => {
+      const nextParams = new URLSearchParams(searchParams.toString())
+
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === "" || value === false) {
+          nextParams.delete(key)
+        } else {
+          nextParams.set(key, String(value))
+        }
+      })
+
+      const queryString = nextParams.toString()
+      router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false })
+    },
+    [pathname, router, searchParams],
+  )
+
+  return { searchParams, updateSearchParams }
+}
@@ -0,0 +1,22 @@
+"use client"
+
+import { useMemo, useSyncExternalStore } from "react"
+import { authApi, subscribeToAuthToken } from "@/lib/api"
+
+// En el servidor no hay token del navegador: se renderiza como sesión desconocida
+const getServerToken = () => null
+const subscribeToNothing = () => () => {}
+
+/** Token y usuario de la sesión actual; se actualiza al iniciar o cerrar sesión en cualquier pestaña */
+export function useSession() {
+  const token = useSyncExternalStore(subscribeToAuthToken, authApi.getToken, getServerToken)
+  // `false` durante el render del servidor y la hidratación, cuando la sesión aún no se conoce
+  const isReady = useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false,
+  )
+  const user = useMemo(() => authApi.getUser(token), [token])
+
+  return { token, user, isAuthenticated: token !== null, isReady }
+}
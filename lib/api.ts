@@ -1,16 +1,47 @@
 // Centralized HTTP client for API calls
+import { z } from "zod"
 import type {
   Book,
   BookQuery,
   CreateLibraryDto,
   CreateBookDto,
+  CreateCopyDto,
+  CreateFineDto,
+  CreateHoldDto,
+  Hold,
   CreateLoanDto,
   CreateMemberDto,
-  Library,
+  FineQuery,
+  HoldQuery,
   Loan,
   LoanQuery,
+  LoanStatus,
   Member,
+  MemberQuery,
+  PageResponse,
+  Paginated,
+  PaginationQuery,
+  RenewLoanDto,
+  ResponseSchema,
 } from "./types"
+import {
+  bookSchema,
+  copySchema,
+  fineSchema,
+  holdSchema,
+  librarySchema,
+  loanSchema,
+  memberSchema,
+  pageResponseSchema,
+} from "./types"
+import { SESSION_ROUTES } from "./auth-session"
+import { decodeJwt, isTokenExpired } from "./jwt"
+import { extractRoleNames } from "./permissions"
+import { DEFAULT_PAGE_SIZE, fetchAllPages, toPaginated, type LocalFilterMatchers } from "./pagination"
+import { isLoanWithinDateRange, matchesLoanStatus } from "./loans"
+import { calculateHoldExpiry, getHoldPickupLibraryId, getHoldQueue, isHoldActive } from "./holds"
+import { getCopyAvailability, isBookInLibrary } from "./copies"
+import { bookHasIsbn, getIsbnSearchVariants, normalizeIsbn, parseIsbn } from "./isbn"
 
 // Permite configurar la URL base del backend desde variables de entorno en tiempo de build,
 // utilizando el valor de la colección de Postman como predeterminado para mantener compatibilidad.
@@ -18,25 +49,184 @@ const API_BASE_URL =
   (process.env.NEXT_PUBLIC_API_BASE_URL ?? process.env.NEXT_PUBLIC_API_URL)?.trim() ||
   "https://backend-480236425407.us-central1.run.app"
 const AUTH_TOKEN_STORAGE_KEY = "library-auth-token"
+// Usuario recibido en la respuesta de login, para backends que no incluyen sus datos en el JWT
+const AUTH_PROFILE_STORAGE_KEY = "library-auth-profile"
 
 const isBrowser = () => typeof window !== "undefined"
 
+const parseNonNegativeInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export interface ApiFieldError {
+  /** Nombre de la propiedad del DTO, por ejemplo `title` o `library.name` */
+  field: string
+  message: string
+}
+
+// class-validator (NestJS) antepone el nombre de la propiedad: "title should not be empty"
+const VALIDATION_MESSAGE_PATTERN = /^([A-Za-z_][\w.]*)\s+(?:must|should|has|is|are|cannot|can)\b/
+
+function collectMessages(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.trim().length > 0 ? [value.trim()] : []
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(collectMessages)
+  }
+
+  if (value && typeof value === "object") {
+    // `constraints` de class-validator: { isNotEmpty: "title should not be empty" }
+    return Object.values(value).flatMap(collectMessages)
+  }
+
+  return []
+}
+
+function extractFieldErrors(payload: unknown): ApiFieldError[] {
+  if (!payload || typeof payload !== "object") {
+    return []
+  }
+
+  const { message, errors } = payload as { message?: unknown; errors?: unknown }
+  const fieldErrors: ApiFieldError[] = []
+
+  if (Array.isArray(message)) {
+    collectMessages(message).forEach((text) => {
+      const match = VALIDATION_MESSAGE_PATTERN.exec(text)
+      if (match?.[1]) {
+        fieldErrors.push({ field: match[1], message: text })
+      }
+    })
+  }
+
+  if (Array.isArray(errors)) {
+    // [{ property: "title", constraints: {...} }] o [{ field: "title", message: "..." }]
+    errors.forEach((entry) => {
+      if (!entry || typeof entry !== "object") return
+
+      const { property, field, path, message: entryMessage, constraints } = entry as Record<string, unknown>
+      const fieldName = [property, field, path].find((value): value is string => typeof value === "string")
+      if (!fieldName) return
+
+      collectMessages(entryMessage ?? constraints).forEach((text) => {
+        fieldErrors.push({ field: fieldName, message: text })
+      })
+    })
+  } else if (errors && typeof errors === "object") {
+    // { title: ["..."], author: "..." }
+    Object.entries(errors).forEach(([fieldName, value]) => {
+      collectMessages(value).forEach((text) => {
+        fieldErrors.push({ field: fieldName, message: text })
+      })
+    })
+  }
+
+  return fieldErrors
+}
+
 export class ApiError extends Error {
+  /** Errores asociados a campos concretos cuando el backend los informa */
+  public readonly fieldErrors: ApiFieldError[]
+
   constructor(
     public statusCode: number,
     message: string,
+    /** Cuerpo original de la respuesta de error, sin procesar */
+    public payload?: unknown,
   ) {
     super(message)
     this.name = "ApiError"
+    this.fieldErrors = extractFieldErrors(payload)
+  }
+
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors.find((error) => error.field === field)?.message
+  }
+}
+
+function formatIssuePath(path: (string | number)[]) {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === "number") {
+      return `${formatted}[${segment}]`
+    }
+
+    return formatted ? `${formatted}.${segment}` : segment
+  }, "")
+}
+
+/** El backend respondió con datos que no cumplen el contrato esperado por la interfaz */
+export class ApiSchemaError extends Error {
+  /** Ruta del primer campo inválido, por ejemplo `[3].available` o `library.name` */
+  public path: string
+
+  constructor(
+    public endpoint: string,
+    public issues: z.ZodIssue[],
+  ) {
+    const [firstIssue] = issues
+    const path = firstIssue ? formatIssuePath(firstIssue.path) || "(raíz)" : "(raíz)"
+    super(`Respuesta inesperada del servidor en ${endpoint}: el campo "${path}" no es válido (${firstIssue?.message ?? "sin detalle"})`)
+    this.name = "ApiSchemaError"
+    this.path = path
   }
 }
 
+export class ApiTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`El servidor no respondió en ${Math.round(timeoutMs / 1000)} segundos. Intenta nuevamente.`)
+    this.name = "ApiTimeoutError"
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError"
+}
+
 type AuthTokenProvider = () => string | null
+/** `storage` indica que el cambio se hizo en otra pestaña del mismo navegador */
+export type AuthTokenChangeSource = "local" | "storage"
+type AuthTokenListener = (token: string | null, source: AuthTokenChangeSource) => void
 
 let inMemoryAuthToken: string | null = null
 let customAuthTokenProvider: AuthTokenProvider | null = null
+const authTokenListeners = new Set<AuthTokenListener>()
+
+/** Notifica cada vez que el token se guarda, se renueva o se elimina, en esta pestaña o en otra */
+export function subscribeToAuthToken(listener: AuthTokenListener) {
+  authTokenListeners.add(listener)
+
+  return () => {
+    authTokenListeners.delete(listener)
+  }
+}
+
+export interface SessionUser {
+  name: string | null
+  email: string | null
+  /** Roles tal como los envía el backend; `resolveRoles` los traduce al modelo de permisos */
+  roleNames: string[]
+}
+
+const readText = (value: unknown) => (typeof value === "string" && value.trim().length > 0 ? value.trim() : null)
+
+/** Datos del usuario en los claims de un JWT o en una respuesta de login (directos o dentro de `user`) */
+function readSessionUser(source: unknown): SessionUser {
+  const record = source && typeof source === "object" ? (source as Record<string, unknown>) : {}
+  const user = record.user && typeof record.user === "object" ? (record.user as Record<string, unknown>) : record
+
+  return {
+    name: readText(user.name) ?? readText(user.fullName) ?? readText(user.preferred_username) ?? readText(user.username),
+    email: readText(user.email),
+    roleNames: extractRoleNames(record),
+  }
+}
+
+const hasSessionUserData = (user: SessionUser) => Boolean(user.name || user.email || user.roleNames.length > 0)
 
-function persistAuthToken(token: string | null) {
+function persistAuthToken(token: string | null, profile?: SessionUser) {
   inMemoryAuthToken = token
 
   if (!isBrowser()) {
@@ -44,6 +234,14 @@ function persistAuthToken(token: string | null) {
   }
 
   try {
+    // El usuario se guarda antes que el token: las otras pestañas reaccionan al cambio del token
+    // Sin `profile` se conserva el usuario actual (por ejemplo, al renovar el token)
+    if (!token || (profile && !hasSessionUserData(profile))) {
+      window.localStorage.removeItem(AUTH_PROFILE_STORAGE_KEY)
+    } else if (profile) {
+      window.localStorage.setItem(AUTH_PROFILE_STORAGE_KEY, JSON.stringify(profile))
+    }
+
     if (token) {
       window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token)
     } else {
@@ -52,10 +250,41 @@ function persistAuthToken(token: string | null) {
   } catch (error) {
     console.warn("No se pudo actualizar el token en el almacenamiento local", error)
   }
+
+  if (!token) {
+    // La cookie httpOnly solo la puede eliminar el servidor
+    requestSessionRoute(SESSION_ROUTES.logout, "POST").catch((error) => {
+      console.warn("No se pudo cerrar la sesión en el servidor", error)
+    })
+  }
+
+  authTokenListeners.forEach((listener) => listener(token, "local"))
+}
+
+// Iniciar o cerrar sesión en una pestaña se propaga al resto mediante el evento `storage`,
+// que el navegador solo entrega a las demás pestañas del mismo origen.
+function handleAuthStorageChange(event: StorageEvent) {
+  // `key` es null cuando se vació todo el almacenamiento
+  if (event.key !== null && event.key !== AUTH_TOKEN_STORAGE_KEY) {
+    return
+  }
+
+  const token = event.key === null ? null : event.newValue
+  if (token === inMemoryAuthToken) {
+    return
+  }
+
+  // La otra pestaña ya cerró la sesión en el servidor; aquí solo se actualiza el estado local
+  inMemoryAuthToken = token
+  authTokenListeners.forEach((listener) => listener(token, "storage"))
+}
+
+if (isBrowser()) {
+  window.addEventListener("storage", handleAuthStorageChange)
 }
 
-export function setAuthToken(token: string) {
-  persistAuthToken(token)
+export function setAuthToken(token: string, profile?: SessionUser) {
+  persistAuthToken(token, profile)
 }
 
 export function clearAuthToken() {
@@ -71,7 +300,9 @@ export function getAuthToken(): string | null {
     try {
       const providedToken = customAuthTokenProvider()
       if (providedToken) {
-        inMemoryAuthToken = providedToken
+        if (isBrowser()) {
+          inMemoryAuthToken = providedToken
+        }
         return providedToken
       }
     } catch (error) {
@@ -79,14 +310,16 @@ export function getAuthToken(): string | null {
     }
   }
 
-  if (inMemoryAuthToken) {
-    return inMemoryAuthToken
-  }
-
+  // En el servidor el módulo se comparte entre solicitudes de distintos usuarios:
+  // el token solo puede venir del proveedor configurado (la cookie de la solicitud actual).
   if (!isBrowser()) {
     return null
   }
 
+  if (inMemoryAuthToken) {
+    return inMemoryAuthToken
+  }
+
   try {
     const storedToken = window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)
     inMemoryAuthToken = storedToken
@@ -97,15 +330,51 @@ export function getAuthToken(): string | null {
   }
 }
 
+function getStoredSessionUser(): SessionUser {
+  try {
+    const storedProfile: unknown = JSON.parse(window.localStorage.getItem(AUTH_PROFILE_STORAGE_KEY) ?? "null")
+    if (storedProfile && typeof storedProfile === "object") {
+      // Se guardó ya normalizado, con los roles en `roleNames`
+      const { roleNames, ...user } = storedProfile as Record<string, unknown>
+      return readSessionUser({ ...user, roles: roleNames })
+    }
+  } catch (error) {
+    console.warn("No se pudieron leer los datos del usuario almacenados", error)
+  }
+
+  return { name: null, email: null, roleNames: [] }
+}
+
+/** Usuario de la sesión: primero los claims del JWT y, en lo que falte, los datos de la respuesta de login */
+export function getSessionUser(token: string | null = getAuthToken()): SessionUser | null {
+  if (!token) {
+    return null
+  }
+
+  const claimsUser = readSessionUser(decodeJwt(token))
+  if (!isBrowser()) {
+    return claimsUser
+  }
+
+  const storedUser = getStoredSessionUser()
+  return {
+    name: claimsUser.name ?? storedUser.name,
+    email: claimsUser.email ?? storedUser.email,
+    roleNames: claimsUser.roleNames.length > 0 ? claimsUser.roleNames : storedUser.roleNames,
+  }
+}
+
 type QueryParamValue = string | number | boolean | null | undefined
+// Los filtros tipados (`BookQuery`, `LoanQuery`...) son interfaces sin firma de índice
+type QueryParams = object
 
-function buildUrl(path: string, query?: Record<string, QueryParamValue>) {
+function buildUrl(path: string, query?: QueryParams) {
   const baseUrl = API_BASE_URL.replace(/\/$/, "")
   const normalizedPath = path.startsWith("/") ? path : `/${path}`
   const url = new URL(`${baseUrl}${normalizedPath}`)
 
   if (query) {
-    Object.entries(query).forEach(([key, value]) => {
+    Object.entries(query as Record<string, QueryParamValue>).forEach(([key, value]) => {
       if (value === undefined || value === null) {
         return
       }
@@ -149,31 +418,41 @@ async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     let message = `HTTP ${response.status}`
 
-    if (data && typeof data === "object" && "message" in data && (data as any).message) {
-      message = String((data as any).message)
+    const payloadMessages =
+      data && typeof data === "object" && "message" in data ? collectMessages((data as { message: unknown }).message) : []
+
+    if (payloadMessages.length > 0) {
+      message = payloadMessages.join(". ")
     } else if (typeof data === "string" && data.trim().length > 0) {
       message = data.trim()
     }
 
-    throw new ApiError(response.status, message)
+    throw new ApiError(response.status, message, data)
   }
 
   return (data as T) ?? (undefined as T)
 }
 
-interface LoginCredentials {
+export interface LoginCredentials {
   email: string
   password: string
 }
 
-interface LoginResponse {
+export interface LoginResponse {
   token?: string
   accessToken?: string
   access_token?: string
+  refreshToken?: string
+  refresh_token?: string
   [key: string]: unknown
 }
 
-function extractAuthToken(payload: LoginResponse | undefined): string | null {
+export function extractRefreshToken(payload: LoginResponse | undefined): string | null {
+  const value = payload?.refreshToken ?? payload?.refresh_token
+  return typeof value === "string" && value.trim().length > 0 ? value : null
+}
+
+export function extractAuthToken(payload: LoginResponse | undefined): string | null {
   if (!payload || typeof payload !== "object") {
     return null
   }
@@ -195,131 +474,564 @@ const defaultHeaders: Record<string, string> = {
   "Content-Type": "application/json",
 }
 
-function withAuthHeaders(customHeaders?: HeadersInit): HeadersInit {
-  const headers = new Headers(defaultHeaders)
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+
+/** Solicitud en curso tal como la ven los interceptores */
+export interface ApiRequest {
+  method: HttpMethod
+  /** Ruta relativa al backend, sin la URL base ni los parámetros de consulta */
+  path: string
+  url: string
+  headers: Headers
+  /** Cuerpo sin serializar; se convierte a JSON después de ejecutar los interceptores */
+  body?: unknown
+  /** Solicitud pública (inicio de sesión, renovación): no lleva token ni puede expirar la sesión */
+  skipAuth?: boolean
+}
+
+/** Puede mutar la solicitud o devolver una nueva */
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | void | Promise<ApiRequest | void>
+/** Recibe la respuesta definitiva (tras los reintentos) antes de interpretarla */
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest,
+) => Response | void | Promise<Response | void>
+/** Puede traducir el error a otro; el resultado final es el que se lanza al llamador */
+export type ErrorInterceptor = (error: unknown, request: ApiRequest) => unknown
+
+function createInterceptorChain<T>() {
+  const handlers: T[] = []
+
+  return {
+    /** Registra un interceptor y devuelve una función para retirarlo */
+    use(handler: T) {
+      handlers.push(handler)
+
+      return () => {
+        const index = handlers.indexOf(handler)
+        if (index >= 0) {
+          handlers.splice(index, 1)
+        }
+      }
+    },
+    clear() {
+      handlers.length = 0
+    },
+    get handlers(): readonly T[] {
+      return [...handlers]
+    },
+  }
+}
+
+export const interceptors = {
+  request: createInterceptorChain<RequestInterceptor>(),
+  response: createInterceptorChain<ResponseInterceptor>(),
+  error: createInterceptorChain<ErrorInterceptor>(),
+}
+
+export const SESSION_EXPIRED_MESSAGE = "Tu sesión ha expirado. Redirigiendo al inicio de sesión..."
+
+type UnauthorizedHandler = (error: ApiError) => void
+
+let unauthorizedHandler: UnauthorizedHandler | null = null
+
+/** Registra la acción global ante un 401 (por ejemplo, redirigir al inicio de sesión) */
+export function configureUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler
+}
+
+/** Cierra la sesión local y dispara el manejador global, igual que un 401 del backend */
+export function notifySessionExpired(payload?: unknown): ApiError {
+  clearAuthToken()
+  const sessionError = new ApiError(401, SESSION_EXPIRED_MESSAGE, payload)
+
+  try {
+    unauthorizedHandler?.(sessionError)
+  } catch (handlerError) {
+    console.warn("El manejador de sesión expirada falló", handlerError)
+  }
 
-  if (customHeaders) {
-    new Headers(customHeaders).forEach((value, key) => {
-      headers.set(key, value)
+  return sessionError
+}
+
+let pendingRefresh: Promise<string | null> | null = null
+
+/**
+ * Intercambia el refresh token (guardado en una cookie httpOnly) por un nuevo token de acceso.
+ * Las llamadas concurrentes comparten la misma solicitud. Devuelve `null` si no se pudo renovar.
+ */
+export function refreshAuthToken(): Promise<string | null> {
+  if (!isBrowser()) {
+    return Promise.resolve(null)
+  }
+
+  pendingRefresh ??= requestSessionRoute<LoginResponse | undefined>(SESSION_ROUTES.refresh, "POST")
+    .then((payload) => {
+      const token = extractAuthToken(payload)
+      if (token) {
+        const profile = readSessionUser(payload)
+        setAuthToken(token, hasSessionUserData(profile) ? profile : undefined)
+      }
+      return token
+    })
+    .catch((error) => {
+      console.warn("No se pudo renovar la sesión", error)
+      return null
     })
+    .finally(() => {
+      pendingRefresh = null
+    })
+
+  return pendingRefresh
+}
+
+export const authHeadersInterceptor: RequestInterceptor = async (request) => {
+  if (request.skipAuth || request.headers.has("Authorization")) {
+    return
+  }
+
+  let token = getAuthToken()
+
+  // Un token vencido equivale a no tener sesión: se intenta renovar antes de llegar al backend
+  if (token && isTokenExpired(token)) {
+    token = await refreshAuthToken()
+    if (!token) {
+      throw new ApiError(401, SESSION_EXPIRED_MESSAGE)
+    }
   }
 
-  const token = getAuthToken()
   if (token) {
-    headers.set("Authorization", `Bearer ${token}`)
+    request.headers.set("Authorization", `Bearer ${token}`)
+  }
+}
+
+export const unauthorizedInterceptor: ErrorInterceptor = (error, request) => {
+  // Un 401 en el inicio de sesión significa credenciales inválidas, no sesión expirada
+  if (!(error instanceof ApiError) || error.statusCode !== 401 || request.skipAuth) {
+    return error
   }
 
-  return headers
+  return notifySessionExpired(error.payload)
 }
 
-export const api = {
-  // Generic GET method
-  async get<T>(path: string, query?: Record<string, QueryParamValue>): Promise<T> {
-    const response = await fetch(buildUrl(path, query), {
-      method: "GET",
-      headers: withAuthHeaders(),
-      cache: "no-store", // Ensure fresh data
+// Los interceptores incorporados se registran primero para que los personalizados vean y puedan anular sus cambios
+interceptors.request.use(authHeadersInterceptor)
+interceptors.error.use(unauthorizedInterceptor)
+
+export interface RequestOptions {
+  /** Señal para cancelar la solicitud desde el llamador (por ejemplo, al desmontar un componente) */
+  signal?: AbortSignal
+  /** Encabezados adicionales para esta solicitud */
+  headers?: HeadersInit
+  /** Omite el token de sesión y el manejo global de 401 */
+  skipAuth?: boolean
+  /** Tiempo máximo de espera por intento, en milisegundos. `0` desactiva el límite */
+  timeoutMs?: number
+  /** Reintentos adicionales permitidos; solo aplica a verbos idempotentes */
+  retries?: number
+}
+
+interface RequestDefaults {
+  timeoutMs: number
+  retries: number
+  /** Espera base antes del primer reintento; se duplica en cada intento siguiente */
+  retryDelayMs: number
+  maxRetryDelayMs: number
+}
+
+// Los arranques en frío de Cloud Run pueden tardar varios segundos, por eso el límite es holgado.
+const requestDefaults: RequestDefaults = {
+  timeoutMs: parseNonNegativeInteger(process.env.NEXT_PUBLIC_API_TIMEOUT_MS, 15000),
+  retries: parseNonNegativeInteger(process.env.NEXT_PUBLIC_API_MAX_RETRIES, 2),
+  retryDelayMs: 500,
+  maxRetryDelayMs: 5000,
+}
+
+export function configureRequestDefaults(overrides: Partial<RequestDefaults>) {
+  Object.assign(requestDefaults, overrides)
+}
+
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(["GET", "PUT", "DELETE"])
+const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([502, 503, 504])
+
+function createAbortError() {
+  return new DOMException("La solicitud fue cancelada", "AbortError")
+}
+
+function getRetryDelay(attempt: number) {
+  const exponentialDelay = Math.min(requestDefaults.maxRetryDelayMs, requestDefaults.retryDelayMs * 2 ** attempt)
+  // Jitter para que varias pestañas no reintenten exactamente al mismo tiempo
+  return exponentialDelay / 2 + Math.random() * (exponentialDelay / 2)
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? createAbortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(signal?.reason ?? createAbortError())
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+// Un fallo de red llega como TypeError desde fetch; también vale la pena reintentar tras un timeout
+const isRetryableError = (error: unknown) => error instanceof TypeError || error instanceof ApiTimeoutError
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController()
+  let hasTimedOut = false
+
+  const abortFromCaller = () => controller.abort(signal?.reason)
+  if (signal?.aborted) {
+    abortFromCaller()
+  } else {
+    signal?.addEventListener("abort", abortFromCaller, { once: true })
+  }
+
+  const timeoutId =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          hasTimedOut = true
+          controller.abort()
+        }, timeoutMs)
+      : undefined
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    if (hasTimedOut) {
+      throw new ApiTimeoutError(timeoutMs)
+    }
+
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener("abort", abortFromCaller)
+  }
+}
+
+async function sendWithRetries(request: ApiRequest, options: RequestOptions): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? requestDefaults.timeoutMs
+  const maxRetries = IDEMPOTENT_METHODS.has(request.method) ? (options.retries ?? requestDefaults.retries) : 0
+  const serializedBody = request.body !== undefined ? JSON.stringify(request.body) : undefined
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+
+    try {
+      response = await fetchWithTimeout(
+        request.url,
+        {
+          method: request.method,
+          headers: request.headers,
+          body: serializedBody,
+          cache: "no-store", // Ensure fresh data
+        },
+        timeoutMs,
+        options.signal,
+      )
+    } catch (error) {
+      if (options.signal?.aborted || attempt >= maxRetries || !isRetryableError(error)) {
+        throw error
+      }
+
+      await wait(getRetryDelay(attempt), options.signal)
+      continue
+    }
+
+    if (RETRYABLE_STATUS_CODES.has(response.status) && attempt < maxRetries) {
+      // Liberamos el cuerpo de la respuesta descartada antes de reintentar
+      void response.body?.cancel().catch(() => undefined)
+      await wait(getRetryDelay(attempt), options.signal)
+      continue
+    }
+
+    return response
+  }
+}
+
+interface RequestConfig<T> extends RequestOptions {
+  query?: QueryParams
+  body?: unknown
+  /** Esquema con el que se valida y normaliza el cuerpo de la respuesta */
+  schema?: ResponseSchema<T>
+}
+
+function validateResponse<T>(schema: ResponseSchema<T>, request: ApiRequest, data: unknown): T {
+  const result = schema.safeParse(data)
+
+  if (!result.success) {
+    throw new ApiSchemaError(`${request.method} ${request.path}`, result.error.issues)
+  }
+
+  return result.data
+}
+
+async function request<T>(
+  method: HttpMethod,
+  path: string,
+  { query, body, headers, schema, skipAuth, ...options }: RequestConfig<T> = {},
+): Promise<T> {
+  const requestHeaders = new Headers(defaultHeaders)
+  if (headers) {
+    new Headers(headers).forEach((value, key) => {
+      requestHeaders.set(key, value)
     })
+  }
+
+  let apiRequest: ApiRequest = { method, path, url: buildUrl(path, query), headers: requestHeaders, body, skipAuth }
+
+  try {
+    for (const interceptor of interceptors.request.handlers) {
+      apiRequest = (await interceptor(apiRequest)) ?? apiRequest
+    }
+
+    let response = await sendWithRetries(apiRequest, options)
 
-    return handleResponse<T>(response)
+    for (const interceptor of interceptors.response.handlers) {
+      response = (await interceptor(response, apiRequest)) ?? response
+    }
+
+    const data = await handleResponse<unknown>(response)
+    return schema ? validateResponse(schema, apiRequest, data) : (data as T)
+  } catch (error) {
+    let finalError = error
+
+    for (const interceptor of interceptors.error.handlers) {
+      finalError = (await interceptor(finalError, apiRequest)) ?? finalError
+    }
+
+    throw finalError
+  }
+}
+
+type ValidatedRequestOptions<T> = RequestOptions & Pick<RequestConfig<T>, "schema">
+
+// Los listados aceptan tanto arreglos como respuestas paginadas
+const bookPageSchema = pageResponseSchema(bookSchema)
+const libraryPageSchema = pageResponseSchema(librarySchema)
+const memberPageSchema = pageResponseSchema(memberSchema)
+const loanPageSchema = pageResponseSchema(loanSchema)
+const fineListSchema = pageResponseSchema(fineSchema).transform((page) => page.items)
+const holdListSchema = pageResponseSchema(holdSchema).transform((page) => page.items)
+const copyListSchema = pageResponseSchema(copySchema).transform((page) => page.items)
+
+// Con inventario por ejemplar un título aparece en todas las bibliotecas donde tiene ejemplares
+const bookFilterMatchers: LocalFilterMatchers<Book> = {
+  libraryId: (book, value) => isBookInLibrary(book, String(value)),
+  isbn: (book, value) => bookHasIsbn(book, parseIsbn(String(value)).isbn ?? normalizeIsbn(String(value))),
+}
+
+const loanFilterMatchers: LocalFilterMatchers<Loan> = {
+  activeOnly: (loan, value) => value !== true || !loan.isReturned,
+  status: (loan, value) => matchesLoanStatus(loan, value as LoanStatus),
+  // Sin la relación incluida no se puede saber la biblioteca: se asume que el backend ya filtró
+  libraryId: (loan, value) => {
+    const libraryId = loan.copy?.libraryId || loan.library?.id || loan.book?.libraryId || undefined
+    return libraryId === undefined || libraryId === value
   },
+  loanDateFrom: (loan, value) => isLoanWithinDateRange(loan, String(value)),
+  loanDateTo: (loan, value) => isLoanWithinDateRange(loan, undefined, String(value)),
+}
+// Las mutaciones pueden responder sin cuerpo (204)
+const optionalBookSchema = bookSchema.optional()
+const optionalLibrarySchema = librarySchema.optional()
+const optionalMemberSchema = memberSchema.optional()
+const optionalLoanSchema = loanSchema.optional()
+const optionalFineSchema = fineSchema.optional()
+const optionalHoldSchema = holdSchema.optional()
+const optionalCopySchema = copySchema.optional()
 
-  // Generic POST method
-  async post<T>(path: string, body?: unknown): Promise<T> {
-    const response = await fetch(buildUrl(path), {
-      method: "POST",
-      headers: withAuthHeaders(),
-      body: body !== undefined ? JSON.stringify(body) : undefined,
-      cache: "no-store",
-    })
+export const api = {
+  // Generic GET method
+  get<T>(path: string, query?: QueryParams, options?: ValidatedRequestOptions<T>): Promise<T> {
+    return request<T>("GET", path, { ...options, query })
+  },
 
-    return handleResponse<T>(response)
+  // Generic POST method
+  post<T>(path: string, body?: unknown, options?: ValidatedRequestOptions<T>): Promise<T> {
+    return request<T>("POST", path, { ...options, body })
   },
 
   // Generic PUT method
-  async put<T>(path: string, body?: unknown): Promise<T> {
-    const response = await fetch(buildUrl(path), {
-      method: "PUT",
-      headers: withAuthHeaders(),
-      body: body !== undefined ? JSON.stringify(body) : undefined,
-      cache: "no-store",
-    })
-
-    return handleResponse<T>(response)
+  put<T>(path: string, body?: unknown, options?: ValidatedRequestOptions<T>): Promise<T> {
+    return request<T>("PUT", path, { ...options, body })
   },
 
   // Generic PATCH method
-  async patch<T>(path: string, body?: unknown): Promise<T> {
-    const response = await fetch(buildUrl(path), {
-      method: "PATCH",
-      headers: withAuthHeaders(),
-      body: body !== undefined ? JSON.stringify(body) : undefined,
-      cache: "no-store",
-    })
-
-    return handleResponse<T>(response)
+  patch<T>(path: string, body?: unknown, options?: ValidatedRequestOptions<T>): Promise<T> {
+    return request<T>("PATCH", path, { ...options, body })
   },
 
   // Generic DELETE method
-  async delete<T>(path: string): Promise<T> {
-    const response = await fetch(buildUrl(path), {
-      method: "DELETE",
-      headers: withAuthHeaders(),
+  delete<T>(path: string, options?: ValidatedRequestOptions<T>): Promise<T> {
+    return request<T>("DELETE", path, options)
+  },
+
+  interceptors,
+}
+
+/**
+ * Llama a los route handlers de Next.js (mismo origen) que administran la cookie de sesión,
+ * a diferencia de `api`, que apunta directamente al backend.
+ */
+async function requestSessionRoute<T>(path: string, method: HttpMethod, body?: unknown): Promise<T> {
+  const response = await fetchWithTimeout(
+    path,
+    {
+      method,
+      headers: defaultHeaders,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      credentials: "same-origin",
       cache: "no-store",
-    })
+    },
+    requestDefaults.timeoutMs,
+  )
 
-    return handleResponse<T>(response)
-  },
+  return handleResponse<T>(response)
 }
 
 export const authApi = {
   async login(credentials: LoginCredentials): Promise<string> {
-    const response = await api.post<LoginResponse>("/auth/login", credentials)
+    // El route handler fija la cookie httpOnly que usan el middleware y los Server Components,
+    // y devuelve el token para autenticar las llamadas directas del navegador al backend.
+    const response = await requestSessionRoute<LoginResponse>(SESSION_ROUTES.login, "POST", credentials)
     const token = extractAuthToken(response)
 
     if (!token) {
       throw new Error("Token de autenticación no encontrado en la respuesta del servidor")
     }
 
-    setAuthToken(token)
+    setAuthToken(token, readSessionUser(response))
     return token
   },
+  /** Indica si el servidor reconoce una cookie de sesión vigente */
+  async hasServerSession(): Promise<boolean> {
+    const response = await requestSessionRoute<{ authenticated?: boolean } | undefined>(SESSION_ROUTES.session, "GET")
+    return response?.authenticated === true
+  },
+  refresh: refreshAuthToken,
   setToken: setAuthToken,
   clearToken: clearAuthToken,
   getToken: getAuthToken,
+  getUser: getSessionUser,
+  /** Cierra la sesión en esta pestaña, en el servidor y, mediante `storage`, en las demás pestañas */
+  logout: clearAuthToken,
   configureTokenProvider: configureAuthTokenProvider,
+  configureUnauthorizedHandler,
+}
+
+/**
+ * Listado completo: si el backend pagina se piden todas las páginas; si devuelve el arreglo completo basta
+ * la primera petición. Los filtros los aplica el backend, igual que antes de la paginación.
+ */
+const getAllPages = <T>(
+  path: string,
+  filters: object | undefined,
+  schema: ResponseSchema<PageResponse<T>>,
+  options?: RequestOptions,
+) => fetchAllPages((query: PaginationQuery) => api.get(path, query, { ...options, schema }), { ...filters })
+
+/**
+ * Registros pedidos uno a uno por id, p. ej. las relaciones de una página de préstamos, para no descargar el
+ * listado completo. Los que ya no existen (404) se omiten; cualquier otro error se propaga.
+ */
+async function getByIds<T>(ids: readonly string[], getById: (id: string) => Promise<T>): Promise<T[]> {
+  const results = await Promise.allSettled(ids.map((id) => getById(id)))
+
+  return results.flatMap((result) => {
+    if (result.status === "fulfilled") {
+      return [result.value]
+    }
+    if (result.reason instanceof ApiError && result.reason.statusCode === 404) {
+      return []
+    }
+    throw result.reason
+  })
 }
 
 // Specific API methods for books
 export const booksApi = {
-  getAll: (filters?: BookQuery) => api.get<Book[]>("/books", filters),
-  getById: (id: string) => api.get<Book>(`/books/${id}`),
-  create: (data: CreateBookDto) => api.post<Book | undefined>("/books", data),
-  update: (id: string, data: Partial<CreateBookDto>) => api.patch<Book | undefined>(`/books/${id}`, data),
+  getAll: (filters?: BookQuery, options?: RequestOptions) => getAllPages("/books", filters, bookPageSchema, options),
+  getPage: async (query: BookQuery = {}, options?: RequestOptions): Promise<Paginated<Book>> =>
+    toPaginated(
+      await api.get("/books", { limit: DEFAULT_PAGE_SIZE, ...query }, { ...options, schema: bookPageSchema }),
+      query,
+      bookFilterMatchers,
+    ),
+  getById: (id: string, options?: RequestOptions) =>
+    api.get(`/books/${id}`, undefined, { ...options, schema: bookSchema }),
+  getByIds: (ids: readonly string[], options?: RequestOptions) => getByIds(ids, (id) => booksApi.getById(id, options)),
+  /**
+   * Libros con el ISBN `isbn` (ISBN-13 normalizado). El backend compara el ISBN tal como se guardó, así que se
+   * pide también el ISBN-10 equivalente y se recorren todas las páginas por si ignora el filtro.
+   */
+  findByIsbn: async (isbn: string, query: BookQuery = {}, options?: RequestOptions) => {
+    const results = await Promise.all(
+      getIsbnSearchVariants(isbn).map((variant) =>
+        fetchAllPages((pageQuery: BookQuery) => booksApi.getPage(pageQuery, options), { ...query, isbn: variant }),
+      ),
+    )
+    const books = results.flat().filter((book) => bookHasIsbn(book, isbn))
+    return Array.from(new Map(books.map((book) => [book.id, book])).values())
+  },
+  create: (data: CreateBookDto) => api.post("/books", data, { schema: optionalBookSchema }),
+  update: (id: string, data: Partial<CreateBookDto>) =>
+    api.patch(`/books/${id}`, data, { schema: optionalBookSchema }),
   delete: (id: string) => api.delete<void>(`/books/${id}`),
 }
 
+// Specific API methods for book copies
+export const copiesApi = {
+  getByBook: (bookId: string, options?: RequestOptions) =>
+    api.get(`/books/${bookId}/copies`, undefined, { ...options, schema: copyListSchema }),
+  create: (bookId: string, data: CreateCopyDto) =>
+    api.post(`/books/${bookId}/copies`, data, { schema: optionalCopySchema }),
+  update: (id: string, data: Partial<CreateCopyDto>) => api.patch(`/copies/${id}`, data, { schema: optionalCopySchema }),
+  delete: (id: string) => api.delete<void>(`/copies/${id}`),
+}
+
 // Specific API methods for libraries
 export const librariesApi = {
-  getAll: () => api.get<Library[]>("/libraries"),
-  getById: (id: string) => api.get<Library>(`/libraries/${id}`),
-  create: (data: CreateLibraryDto) => api.post<Library | undefined>("/libraries", data),
+  getAll: (options?: RequestOptions) => getAllPages("/libraries", undefined, libraryPageSchema, options),
+  getById: (id: string, options?: RequestOptions) =>
+    api.get(`/libraries/${id}`, undefined, { ...options, schema: librarySchema }),
+  create: (data: CreateLibraryDto) => api.post("/libraries", data, { schema: optionalLibrarySchema }),
   update: (id: string, data: Partial<CreateLibraryDto>) =>
-    api.patch<Library | undefined>(`/libraries/${id}`, data),
+    api.patch(`/libraries/${id}`, data, { schema: optionalLibrarySchema }),
   delete: (id: string) => api.delete<void>(`/libraries/${id}`),
 }
 
 // Specific API methods for members
 export const membersApi = {
-  getAll: () => api.get<Member[]>("/members"),
-  getById: (id: string) => api.get<Member>(`/members/${id}`),
+  getAll: (options?: RequestOptions) => getAllPages("/members", undefined, memberPageSchema, options),
+  getPage: async (query: MemberQuery = {}, options?: RequestOptions): Promise<Paginated<Member>> =>
+    toPaginated(
+      await api.get("/members", { limit: DEFAULT_PAGE_SIZE, ...query }, { ...options, schema: memberPageSchema }),
+      query,
+    ),
+  getById: (id: string, options?: RequestOptions) =>
+    api.get(`/members/${id}`, undefined, { ...options, schema: memberSchema }),
+  getByIds: (ids: readonly string[], options?: RequestOptions) =>
+    getByIds(ids, (id) => membersApi.getById(id, options)),
   create: (data: CreateMemberDto) => {
     const payload: CreateMemberDto = { ...data }
     if (!payload.password) {
       delete payload.password
     }
 
-    return api.post<Member | undefined>("/members", payload)
+    return api.post("/members", payload, { schema: optionalMemberSchema })
   },
   update: (id: string, data: Partial<CreateMemberDto>) => {
     const payload: Partial<CreateMemberDto> = { ...data }
@@ -327,15 +1039,116 @@ export const membersApi = {
       delete payload.password
     }
 
-    return api.put<Member | undefined>(`/members/${id}`, payload)
+    return api.put(`/members/${id}`, payload, { schema: optionalMemberSchema })
   },
   delete: (id: string) => api.delete<void>(`/members/${id}`),
 }
 
 // Specific API methods for loans
 export const loansApi = {
-  getAll: (filters?: LoanQuery) => api.get<Loan[]>("/loans", filters),
-  getById: (id: string) => api.get<Loan>(`/loans/${id}`),
-  create: (data: CreateLoanDto) => api.post<Loan | undefined>("/loans", data),
-  returnLoan: (id: string) => api.post<Loan | undefined>(`/loans/${id}/return`),
+  getAll: (filters?: LoanQuery, options?: RequestOptions) => getAllPages("/loans", filters, loanPageSchema, options),
+  getPage: async (query: LoanQuery = {}, options?: RequestOptions): Promise<Paginated<Loan>> =>
+    toPaginated(
+      await api.get("/loans", { limit: DEFAULT_PAGE_SIZE, ...query }, { ...options, schema: loanPageSchema }),
+      query,
+      loanFilterMatchers,
+    ),
+  getById: (id: string, options?: RequestOptions) =>
+    api.get(`/loans/${id}`, undefined, { ...options, schema: loanSchema }),
+  create: async (data: CreateLoanDto) => {
+    const loan = await api.post("/loans", data, { schema: optionalLoanSchema })
+    await settleHoldQueue(() => holdsApi.fulfillForMember(data.bookId, data.memberId))
+    return loan
+  },
+  returnLoan: async (id: string) => {
+    const loan = await api.post(`/loans/${id}/return`, undefined, { schema: optionalLoanSchema })
+    // La devolución deja un ejemplar disponible para la siguiente reserva en espera
+    await settleHoldQueue(async () => holdsApi.promoteQueue(loan?.bookId ?? (await loansApi.getById(id)).bookId))
+    return loan
+  },
+  renew: (id: string, data: RenewLoanDto) => api.post(`/loans/${id}/renew`, data, { schema: optionalLoanSchema }),
+}
+
+// La cola de reservas se actualiza después del préstamo, la devolución, la cancelación o la expiración: si
+// falla, la operación principal ya se completó y no debe informarse como error
+async function settleHoldQueue(update: () => Promise<unknown>) {
+  try {
+    await update()
+  } catch (error) {
+    console.warn("No se pudieron actualizar las reservas del libro", error)
+  }
+}
+
+// Specific API methods for holds
+export const holdsApi = {
+  getAll: (filters?: HoldQuery, options?: RequestOptions) =>
+    api.get("/holds", filters, { ...options, schema: holdListSchema }),
+  /** Reservas en espera o listas para recoger, sin el historial de entregadas, canceladas y expiradas */
+  getActive: async (options?: RequestOptions) => {
+    const [waitingHolds, readyHolds] = await Promise.all([
+      holdsApi.getAll({ status: "waiting" }, options),
+      holdsApi.getAll({ status: "ready" }, options),
+    ])
+    // Por si el backend ignora el filtro `status` y devuelve las mismas reservas en las dos consultas
+    const activeHolds = [...waitingHolds, ...readyHolds].filter(isHoldActive)
+    return Array.from(new Map(activeHolds.map((hold) => [hold.id, hold])).values())
+  },
+  create: (data: CreateHoldDto) => api.post("/holds", data, { schema: optionalHoldSchema }),
+  cancel: async (id: string, bookId: string) => {
+    const hold = await api.post(`/holds/${id}/cancel`, undefined, { schema: optionalHoldSchema })
+    await settleHoldQueue(() => holdsApi.promoteQueue(bookId))
+    return hold
+  },
+  /** Libera un libro apartado que no se recogió a tiempo y lo pasa a la siguiente reserva */
+  expire: async (id: string, bookId: string) => {
+    const hold = await api.post(`/holds/${id}/expire`, undefined, { schema: optionalHoldSchema })
+    await settleHoldQueue(() => holdsApi.promoteQueue(bookId))
+    return hold
+  },
+  /**
+   * Aparta ejemplares para las reservas en espera, por orden de la cola, mientras queden más ejemplares
+   * disponibles que reservas listas. Devuelve las reservas que pasaron a estar listas.
+   */
+  promoteQueue: async (bookId: string) => {
+    const [book, holds] = await Promise.all([booksApi.getById(bookId), holdsApi.getAll({ bookId })])
+    // Por si el backend ignora el filtro `bookId`
+    const queue = getHoldQueue(holds, bookId)
+    const readyCount = queue.filter((hold) => hold.status === "ready").length
+    const spareCopies = getCopyAvailability(book).available - readyCount
+    const nextHolds = queue.filter((hold) => hold.status === "waiting").slice(0, Math.max(spareCopies, 0))
+
+    const readyAt = new Date()
+    const promotedHolds: Hold[] = []
+    // En serie y por orden de llegada: cada reserva aparta uno de los ejemplares sobrantes
+    for (const hold of nextHolds) {
+      const expiresAt = calculateHoldExpiry(readyAt, getHoldPickupLibraryId({ ...hold, book }))
+      const promotedHold = await api.post(
+        `/holds/${hold.id}/ready`,
+        { readyAt: readyAt.toISOString(), expiresAt: expiresAt.toISOString() },
+        { schema: optionalHoldSchema },
+      )
+      promotedHolds.push(promotedHold ?? hold)
+    }
+
+    return promotedHolds
+  },
+  /** Marca como entregadas las reservas activas del miembro para el libro que acaba de llevarse */
+  fulfillForMember: async (bookId: string, memberId: string) => {
+    const holds = await holdsApi.getAll({ bookId, memberId })
+    const memberHolds = getHoldQueue(holds, bookId).filter((hold) => hold.memberId === memberId)
+    await Promise.all(
+      memberHolds.map((hold) => api.post(`/holds/${hold.id}/fulfill`, undefined, { schema: optionalHoldSchema })),
+    )
+  },
+}
+
+// Specific API methods for fines
+export const finesApi = {
+  getAll: (filters?: FineQuery, options?: RequestOptions) =>
+    api.get("/fines", filters, { ...options, schema: fineListSchema }),
+  // Registra una multa calculada en el cliente, por ejemplo al cobrarla o condonarla directamente
+  create: (data: CreateFineDto) => api.post("/fines", data, { schema: optionalFineSchema }),
+  pay: (id: string) => api.post(`/fines/${id}/pay`, undefined, { schema: optionalFineSchema }),
+  waive: (id: string, note?: string) =>
+    api.post(`/fines/${id}/waive`, note ? { note } : undefined, { schema: optionalFineSchema }),
 }
@@ -0,0 +1,27 @@
+// Rutas de redirección hacia y desde el inicio de sesión
+export const LOGIN_PATH = "/auth/login"
+export const REDIRECT_PARAM = "next"
+
+/**
+ * Solo acepta rutas internas para evitar redirecciones abiertas (`//otro-dominio.com`, `https://...`).
+ */
+export function getSafeRedirectPath(value: string | null | undefined, fallback = "/"): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return fallback
+  }
+
+  if (value === LOGIN_PATH || value.startsWith(`${LOGIN_PATH}?`)) {
+    return fallback
+  }
+
+  return value
+}
+
+export function buildLoginUrl(nextPath?: string | null): string {
+  const safePath = getSafeRedirectPath(nextPath, "")
+  if (!safePath || safePath === "/") {
+    return LOGIN_PATH
+  }
+
+  return `${LOGIN_PATH}?${new URLSearchParams({ [REDIRECT_PARAM]: safePath }).toString()}`
+}
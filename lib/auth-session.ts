@@ -0,0 +1,23 @@
+// Constantes de la sesión basada en cookies, compartidas por el middleware, los route handlers
+// y el cliente. No debe importar módulos de Node ni de React: el middleware corre en el Edge runtime.
+export const AUTH_COOKIE_NAME = "library-auth-token"
+/** El refresh token nunca se expone al navegador: solo viaja en esta cookie httpOnly */
+export const REFRESH_COOKIE_NAME = "library-refresh-token"
+
+/** Duración de la cookie cuando el token no es un JWT con `exp` */
+export const AUTH_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 8
+export const REFRESH_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 7
+
+export const SESSION_ROUTES = {
+  login: "/api/auth/login",
+  logout: "/api/auth/logout",
+  refresh: "/api/auth/refresh",
+  session: "/api/auth/session",
+} as const
+
+export const authCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+}
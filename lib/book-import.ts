@@ -0,0 +1,216 @@
+// Importación masiva de libros desde CSV o MARC. Cada fila se valida en el cliente antes de enviarla, igual que
+// en `CreateBookForm`: campos obligatorios, ISBN válido y no repetido en la biblioteca, y biblioteca existente.
+import { parseCsv, toCsv } from "./csv"
+import { findBookWithIsbn, getDuplicateIsbnError, parseIsbn } from "./isbn"
+import { getMarcBookFields, type MarcRecord } from "./marc"
+import type { Book, CreateBookDto, Library } from "./types"
+
+export type BookImportColumn = "title" | "author" | "isbn" | "library"
+
+// Nombres aceptados en la cabecera (sin distinguir mayúsculas ni tildes)
+const COLUMN_ALIASES: Record<BookImportColumn, readonly string[]> = {
+  title: ["title", "titulo"],
+  author: ["author", "autor"],
+  isbn: ["isbn"],
+  library: ["library", "biblioteca", "libraryid"],
+}
+
+const REQUIRED_COLUMNS: readonly BookImportColumn[] = ["title", "author", "library"]
+
+/** Cantidad de peticiones en paralelo durante la importación: ISBN que se buscan o libros que se crean */
+export const BOOK_IMPORT_BATCH_SIZE = 5
+
+export const BOOK_IMPORT_TEMPLATE = toCsv([
+  ["title", "author", "isbn", "library"],
+  ["Cien años de soledad", "Gabriel García Márquez", "978-0-307-47472-8", "Biblioteca Central"],
+])
+
+export interface BookImportRow {
+  /** Línea del CSV donde empieza la fila (la cabecera es la 1), o número de registro en un archivo MARC */
+  rowNumber: number
+  values: Record<BookImportColumn, string>
+  /** Datos listos para `booksApi.create`; solo si la fila no tiene errores */
+  book?: CreateBookDto
+  errors: string[]
+}
+
+/** Fila sin errores, con los datos listos para crear el libro */
+export type ValidBookImportRow = BookImportRow & { book: CreateBookDto }
+
+export function isValidBookImportRow(row: BookImportRow): row is ValidBookImportRow {
+  return row.book !== undefined
+}
+
+export interface BookImportPreview {
+  rows: BookImportRow[]
+  /** Problema con el archivo en sí (vacío o sin las columnas obligatorias) */
+  fileError?: string
+}
+
+const normalizeKey = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+
+function findColumnIndexes(header: string[]): Partial<Record<BookImportColumn, number>> {
+  const normalizedHeader = header.map(normalizeKey)
+  const indexes: Partial<Record<BookImportColumn, number>> = {}
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [BookImportColumn, readonly string[]][]) {
+    const index = normalizedHeader.findIndex((name) => aliases.includes(name))
+    if (index !== -1) {
+      indexes[column] = index
+    }
+  }
+
+  return indexes
+}
+
+/**
+ * Valida cada fila contra las bibliotecas (por nombre o id) y los libros ya registrados. Un ISBN repetido
+ * dentro del mismo archivo y biblioteca solo se acepta en la primera fila.
+ */
+function validateBookImportRows(
+  entries: Pick<BookImportRow, "rowNumber" | "values">[],
+  libraries: Library[],
+  existingBooks: Book[],
+): BookImportRow[] {
+  const librariesByKey = new Map<string, Library>()
+  for (const library of libraries) {
+    librariesByKey.set(normalizeKey(library.name), library)
+    librariesByKey.set(normalizeKey(library.id), library)
+  }
+
+  const seenIsbns = new Map<string, number>()
+
+  return entries.map<BookImportRow>(({ rowNumber, values }) => {
+    const errors: string[] = []
+
+    if (!values.title) errors.push("El título es obligatorio")
+    if (!values.author) errors.push("El autor es obligatorio")
+
+    const library = values.library ? librariesByKey.get(normalizeKey(values.library)) : undefined
+    if (!values.library) {
+      errors.push("La biblioteca es obligatoria")
+    } else if (!library) {
+      errors.push(`No existe la biblioteca "${values.library}"`)
+    }
+
+    const parsedIsbn = values.isbn ? parseIsbn(values.isbn) : null
+    if (parsedIsbn?.error) {
+      errors.push(parsedIsbn.error)
+    } else if (parsedIsbn?.isbn && library) {
+      const duplicate = findBookWithIsbn(existingBooks, parsedIsbn.isbn, library.id)
+      const fileKey = `${library.id}:${parsedIsbn.isbn}`
+      const firstRowNumber = seenIsbns.get(fileKey)
+
+      if (duplicate) {
+        errors.push(getDuplicateIsbnError(duplicate))
+      } else if (firstRowNumber !== undefined) {
+        errors.push(`El ISBN ya aparece en la fila ${firstRowNumber} para la misma biblioteca`)
+      } else {
+        seenIsbns.set(fileKey, rowNumber)
+      }
+    }
+
+    if (errors.length > 0 || !library) {
+      return { rowNumber, values, errors }
+    }
+
+    return {
+      rowNumber,
+      values,
+      errors,
+      book: {
+        title: values.title,
+        author: values.author,
+        ...(parsedIsbn?.isbn && { isbn: parsedIsbn.isbn }),
+        libraryId: library.id,
+      },
+    }
+  })
+}
+
+export function parseBookImportCsv(text: string, libraries: Library[], existingBooks: Book[]): BookImportPreview {
+  const [header, ...records] = parseCsv(text)
+  if (!header) {
+    return { rows: [], fileError: "El archivo está vacío" }
+  }
+
+  const indexes = findColumnIndexes(header.cells)
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => indexes[column] === undefined)
+  if (missingColumns.length > 0) {
+    return {
+      rows: [],
+      fileError: `Faltan columnas en la cabecera: ${missingColumns.join(", ")}. Se esperan title, author, isbn y library`,
+    }
+  }
+
+  if (records.length === 0) {
+    return { rows: [], fileError: "El archivo no tiene filas de libros" }
+  }
+
+  const entries = records.map(({ cells, lineNumber }) => {
+    const readColumn = (column: BookImportColumn) => {
+      const columnIndex = indexes[column]
+      // Quita el apóstrofo que el informe de errores antepone a los textos que parecen fórmulas
+      return columnIndex === undefined ? "" : (cells[columnIndex] ?? "").trim().replace(/^'(?=[=+\-@])/, "")
+    }
+
+    return {
+      rowNumber: lineNumber,
+      values: {
+        title: readColumn("title"),
+        author: readColumn("author"),
+        isbn: readColumn("isbn"),
+        library: readColumn("library"),
+      },
+    }
+  })
+
+  return { rows: validateBookImportRows(entries, libraries, existingBooks) }
+}
+
+/** ISBN distintos del archivo (ISBN-13 normalizado), para buscar en el catálogo solo los libros que pueden repetirse */
+export function getBookImportIsbns(rows: Pick<BookImportRow, "values">[]): string[] {
+  const isbns = rows.map((row) => (row.values.isbn ? parseIsbn(row.values.isbn).isbn : undefined))
+  return Array.from(new Set(isbns.filter((isbn): isbn is string => Boolean(isbn))))
+}
+
+/** Registros MARC ya leídos como filas de importación; todos van a la biblioteca `libraryId` */
+export function buildMarcImportPreview(
+  records: MarcRecord[],
+  libraryId: string,
+  libraries: Library[],
+  existingBooks: Book[],
+): BookImportPreview {
+  if (records.length === 0) {
+    return { rows: [], fileError: "El archivo no contiene registros MARC" }
+  }
+
+  const entries = records.map((record, index) => ({
+    rowNumber: index + 1,
+    values: { ...getMarcBookFields(record), library: libraryId },
+  }))
+
+  return { rows: validateBookImportRows(entries, libraries, existingBooks) }
+}
+
+/** Informe descargable con las filas rechazadas y el motivo, con las columnas originales para corregirlas */
+export function buildBookImportErrorReport(rows: BookImportRow[]): string {
+  return toCsv([
+    ["row", "title", "author", "isbn", "library", "errors"],
+    ...rows
+      .filter((row) => row.errors.length > 0)
+      .map((row) => [
+        row.rowNumber,
+        row.values.title,
+        row.values.author,
+        row.values.isbn,
+        row.values.library,
+        row.errors.join("; "),
+      ]),
+  ])
+}
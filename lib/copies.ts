@@ -0,0 +1,70 @@
+// Inventario por ejemplar: un título (`Book`) con varios ejemplares físicos, cada uno con su código de barras,
+// biblioteca, ubicación y estado. Los backends sin inventario tratan cada libro como un único ejemplar.
+import type { Book, BookCopy, CopyStatus } from "./types"
+
+export const COPY_STATUS_LABELS: Record<CopyStatus, string> = {
+  available: "Disponible",
+  on_loan: "Prestado",
+  on_hold: "Apartado",
+  maintenance: "En reparación",
+  lost: "Perdido",
+}
+
+export interface CopyAvailability {
+  available: number
+  total: number
+}
+
+/** El backend envía los ejemplares del libro: los préstamos deben indicar cuál se presta */
+export function hasCopyInventory(book: Pick<Book, "copies">): boolean {
+  return Boolean(book.copies)
+}
+
+/** Ejemplares del libro; sin inventario, un único ejemplar implícito en la biblioteca del libro */
+export function getBookCopies(book: Book): BookCopy[] {
+  if (book.copies) {
+    return book.copies
+  }
+
+  return [
+    {
+      id: book.id,
+      bookId: book.id,
+      barcode: "",
+      libraryId: book.libraryId,
+      status: book.available ? "available" : "on_loan",
+      library: book.library,
+    },
+  ]
+}
+
+/** Ejemplares disponibles para préstamo, opcionalmente solo los de una biblioteca */
+export function getAvailableCopies(book: Book, libraryId?: string): BookCopy[] {
+  return getBookCopies(book).filter(
+    (copy) => copy.status === "available" && (!libraryId || copy.libraryId === libraryId),
+  )
+}
+
+export function getCopyAvailability(book: Book, libraryId?: string): CopyAvailability {
+  // Los listados pueden traer solo los totales, sin el detalle de cada ejemplar
+  if (!libraryId && !book.copies && book.totalCopies !== undefined) {
+    return { available: book.availableCopies ?? (book.available ? 1 : 0), total: book.totalCopies }
+  }
+
+  const copies = getBookCopies(book).filter((copy) => !libraryId || copy.libraryId === libraryId)
+  return { available: copies.filter((copy) => copy.status === "available").length, total: copies.length }
+}
+
+/** "Disponible" o "Prestado" con un solo ejemplar; "2 de 3 disponibles" con varios */
+export function formatCopyAvailability({ available, total }: CopyAvailability): string {
+  if (total <= 1) {
+    return available > 0 ? "Disponible" : "Prestado"
+  }
+
+  return `${available} de ${total} disponibles`
+}
+
+/** El título tiene algún ejemplar en la biblioteca, aunque su registro pertenezca a otra */
+export function isBookInLibrary(book: Book, libraryId: string): boolean {
+  return book.libraryId === libraryId || getBookCopies(book).some((copy) => copy.libraryId === libraryId)
+}
@@ -0,0 +1,107 @@
+// Lectura y escritura de CSV en el navegador (RFC 4180: campos entre comillas con comillas dobladas).
+// Excel en español guarda con `;` como separador, así que al leer se detecta el delimitador de la cabecera.
+
+const UTF8_BOM = "\uFEFF"
+
+function detectDelimiter(text: string): "," | ";" {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/))
+  return headerLine.split(";").length > headerLine.split(",").length ? ";" : ","
+}
+
+export interface CsvRow {
+  cells: string[]
+  /** Línea del archivo (desde 1) donde empieza la fila; una celda entre comillas puede ocupar varias */
+  lineNumber: number
+}
+
+/** Filas del CSV con sus celdas y su línea de origen; se ignoran las líneas vacías */
+export function parseCsv(text: string): CsvRow[] {
+  const source = text.startsWith(UTF8_BOM) ? text.slice(1) : text
+  const delimiter = detectDelimiter(source)
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+  let lineNumber = 1
+  let rowLineNumber = 1
+
+  const pushRow = () => {
+    row.push(cell)
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ cells: row, lineNumber: rowLineNumber })
+    }
+    row = []
+    cell = ""
+  }
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index]
+
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        // Un salto de línea dentro de la celda también avanza la línea del archivo (`\r\n` cuenta una vez)
+        if (char === "\n" || (char === "\r" && source[index + 1] !== "\n")) {
+          lineNumber++
+        }
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index++
+      }
+      pushRow()
+      lineNumber++
+      rowLineNumber = lineNumber
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    pushRow()
+  }
+
+  return rows
+}
+
+// Excel y LibreOffice evalúan como fórmula una celda que empieza por estos caracteres
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value)
+  // El apóstrofo hace que la hoja de cálculo muestre el texto tal cual; solo afecta a textos del usuario
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`
+  }
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV con BOM para que Excel reconozca el UTF-8 (tildes y eñes). Por defecto con `;`, que Excel en español separa
+ * en columnas al abrir el archivo: así salen las exportaciones, la plantilla de importación y su informe de errores.
+ */
+export function toCsv(rows: readonly (readonly unknown[])[], delimiter: "," | ";" = ";"): string {
+  return UTF8_BOM + rows.map((row) => row.map(escapeCsvCell).join(delimiter)).join("\r\n")
+}
+
+/** Descarga `content` como archivo sin pasar por el servidor */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,83 @@
+// Exportación de listados a CSV o JSON generada en el navegador. Cada recurso define sus columnas, incluidos
+// los campos relacionados (nombre de la biblioteca, del miembro…) que las páginas ya resuelven. Las fechas
+// se exportan en ISO 8601 para que las hojas de cálculo las ordenen correctamente.
+import { downloadFile, toCsv } from "./csv"
+import { getLoanDueDate, isLoanOverdue } from "./loans"
+import type { Book, Library, Loan, Member } from "./types"
+
+export type ExportFormat = "csv" | "json"
+
+export type ExportValue = string | number | boolean | null | undefined
+
+export interface ExportColumn<T> {
+  /** Propiedad en el JSON */
+  key: string
+  /** Encabezado de la columna en el CSV */
+  header: string
+  value: (item: T) => ExportValue
+}
+
+const todayStamp = () => new Date().toISOString().slice(0, 10)
+
+/** Descarga `items` como `<baseName>-AAAA-MM-DD.csv|json` */
+export function exportRecords<T>(items: T[], columns: ExportColumn<T>[], format: ExportFormat, baseName: string) {
+  const filename = `${baseName}-${todayStamp()}.${format}`
+
+  if (format === "csv") {
+    const rows = items.map((item) => columns.map((column) => column.value(item)))
+    const csv = toCsv([columns.map((column) => column.header), ...rows])
+    downloadFile(filename, csv, "text/csv;charset=utf-8")
+    return
+  }
+
+  const records = items.map((item) =>
+    Object.fromEntries(columns.map((column) => [column.key, column.value(item) ?? null])),
+  )
+  downloadFile(filename, JSON.stringify(records, null, 2), "application/json;charset=utf-8")
+}
+
+export const BOOK_EXPORT_COLUMNS: ExportColumn<Book>[] = [
+  { key: "id", header: "ID", value: (book) => book.id },
+  { key: "title", header: "Título", value: (book) => book.title },
+  { key: "author", header: "Autor", value: (book) => book.author },
+  { key: "isbn", header: "ISBN", value: (book) => book.isbn },
+  { key: "libraryId", header: "ID biblioteca", value: (book) => book.libraryId },
+  { key: "libraryName", header: "Biblioteca", value: (book) => book.library?.name },
+  { key: "available", header: "Disponible", value: (book) => book.available },
+  { key: "totalCopies", header: "Ejemplares", value: (book) => book.totalCopies ?? book.copies?.length },
+  { key: "createdAt", header: "Fecha de alta", value: (book) => book.createdAt },
+]
+
+export const MEMBER_EXPORT_COLUMNS: ExportColumn<Member>[] = [
+  { key: "id", header: "ID", value: (member) => member.id },
+  { key: "name", header: "Nombre", value: (member) => member.name },
+  { key: "email", header: "Email", value: (member) => member.email },
+  { key: "phone", header: "Teléfono", value: (member) => member.phone },
+  { key: "memberType", header: "Tipo de miembro", value: (member) => member.memberType },
+  { key: "createdAt", header: "Fecha de alta", value: (member) => member.createdAt },
+]
+
+export const LOAN_EXPORT_COLUMNS: ExportColumn<Loan>[] = [
+  { key: "id", header: "ID", value: (loan) => loan.id },
+  { key: "bookId", header: "ID libro", value: (loan) => loan.bookId },
+  { key: "bookTitle", header: "Libro", value: (loan) => loan.book?.title },
+  { key: "copyBarcode", header: "Ejemplar", value: (loan) => loan.copy?.barcode },
+  { key: "memberId", header: "ID miembro", value: (loan) => loan.memberId },
+  { key: "memberName", header: "Miembro", value: (loan) => loan.member?.name },
+  { key: "libraryName", header: "Biblioteca", value: (loan) => loan.library?.name },
+  { key: "loanDate", header: "Fecha de préstamo", value: (loan) => loan.loanDate },
+  { key: "dueDate", header: "Fecha límite", value: (loan) => getLoanDueDate(loan)?.toISOString() },
+  // Mientras el préstamo está activo algunos backends envían en `returnDate` la fecha límite
+  { key: "returnDate", header: "Fecha de devolución", value: (loan) => (loan.isReturned ? loan.returnDate : null) },
+  { key: "isReturned", header: "Devuelto", value: (loan) => loan.isReturned },
+  { key: "isOverdue", header: "Vencido", value: (loan) => isLoanOverdue(loan) },
+]
+
+export const LIBRARY_EXPORT_COLUMNS: ExportColumn<Library>[] = [
+  { key: "id", header: "ID", value: (library) => library.id },
+  { key: "name", header: "Nombre", value: (library) => library.name },
+  { key: "address", header: "Dirección", value: (library) => library.address },
+  { key: "openingHours", header: "Horario", value: (library) => library.openingHours },
+  { key: "bookCount", header: "Libros", value: (library) => library.books?.length },
+  { key: "createdAt", header: "Fecha de alta", value: (library) => library.createdAt },
+]
@@ -0,0 +1,118 @@
+// Multas por devolución tardía. Se devengan por día de atraso con la tarifa de la política de préstamo
+// de cada biblioteca; el backend registra las multas y su estado (pendiente, pagada o condonada).
+import { DAY_MS, getLoanDueDate, getLoanPolicy, parseLoanDate } from "./loans"
+import type { Fine, FineStatus, Loan } from "./types"
+
+// Moneda de los importes, configurable en tiempo de build
+const FINE_CURRENCY = process.env.NEXT_PUBLIC_FINE_CURRENCY?.trim().toUpperCase() || "USD"
+
+export const FINE_STATUS_LABELS: Record<FineStatus, string> = {
+  pending: "Pendiente",
+  paid: "Pagada",
+  waived: "Condonada",
+}
+
+export function formatFineAmount(amount: number): string {
+  try {
+    return new Intl.NumberFormat("es-ES", { style: "currency", currency: FINE_CURRENCY }).format(amount)
+  } catch {
+    // Código de moneda no reconocido por el navegador
+    return `${amount.toFixed(2)} ${FINE_CURRENCY}`
+  }
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+/** Días de atraso iniciados: hasta la devolución real o, si el préstamo sigue activo, hasta `now` */
+export function getLoanDaysLate(loan: Loan, now = new Date()): number {
+  const dueDate = getLoanDueDate(loan)
+  const endDate = loan.isReturned ? parseLoanDate(loan.returnDate) : now
+
+  if (!dueDate || !endDate || endDate <= dueDate) {
+    return 0
+  }
+
+  return Math.ceil((endDate.getTime() - dueDate.getTime()) / DAY_MS)
+}
+
+export function calculateLoanFine(loan: Loan, now = new Date()): number {
+  return roundAmount(getLoanDaysLate(loan, now) * getLoanPolicy(loan).dailyFineRate)
+}
+
+export interface FineLedgerEntry {
+  /** Id de la multa registrada; `null` mientras solo está calculada en el cliente */
+  fineId: string | null
+  loanId: string
+  loan?: Loan
+  amount: number
+  daysLate: number
+  status: FineStatus
+  /** El préstamo sigue activo: el importe aumenta cada día hasta la devolución */
+  isAccruing: boolean
+  note?: string
+  createdAt?: string | null
+}
+
+/**
+ * Libro de multas de un miembro: las registradas en el backend más las que se calculan para los préstamos
+ * con atraso que todavía no tienen una. Las más recientes primero.
+ */
+export function buildFineLedger(loans: Loan[], fines: Fine[], now = new Date()): FineLedgerEntry[] {
+  const loansById = new Map(loans.map((loan) => [loan.id, loan]))
+  const loanIdsWithFine = new Set(fines.map((fine) => fine.loanId))
+
+  const recordedEntries = fines.map<FineLedgerEntry>((fine) => {
+    const loan = loansById.get(fine.loanId)
+    return {
+      fineId: fine.id,
+      loanId: fine.loanId,
+      loan,
+      amount: fine.amount,
+      daysLate: loan ? getLoanDaysLate(loan, now) : 0,
+      status: fine.status,
+      isAccruing: false,
+      note: fine.note,
+      createdAt: fine.createdAt,
+    }
+  })
+
+  const accruedEntries = loans.flatMap<FineLedgerEntry>((loan) => {
+    const amount = loanIdsWithFine.has(loan.id) ? 0 : calculateLoanFine(loan, now)
+    if (amount <= 0) {
+      return []
+    }
+
+    return [
+      {
+        fineId: null,
+        loanId: loan.id,
+        loan,
+        amount,
+        daysLate: getLoanDaysLate(loan, now),
+        status: "pending",
+        isAccruing: !loan.isReturned,
+        createdAt: loan.isReturned ? loan.returnDate : null,
+      },
+    ]
+  })
+
+  return [...accruedEntries, ...recordedEntries].sort(
+    (left, right) =>
+      (parseLoanDate(right.createdAt)?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+      (parseLoanDate(left.createdAt)?.getTime() ?? Number.MAX_SAFE_INTEGER),
+  )
+}
+
+/** Importe pendiente, incluidas las multas que siguen devengándose */
+export function getOutstandingFinesTotal(entries: FineLedgerEntry[]): number {
+  return roundAmount(entries.reduce((total, entry) => total + (entry.status === "pending" ? entry.amount : 0), 0))
+}
+
+/** Mensaje de bloqueo si las multas pendientes superan el límite de la política; `null` si puede llevar libros */
+export function getFineBlockError(outstandingTotal: number, maxOutstandingFines: number): string | null {
+  if (outstandingTotal <= maxOutstandingFines) {
+    return null
+  }
+
+  return `El miembro tiene ${formatFineAmount(outstandingTotal)} en multas pendientes y el límite para nuevos préstamos es ${formatFineAmount(maxOutstandingFines)}`
+}
@@ -0,0 +1,48 @@
+// Traduce los errores de validación del backend a errores por campo de formulario
+import { ApiError } from "./api"
+
+export type FieldErrors<F extends string> = Partial<Record<F, string>>
+
+interface FormErrorState<F extends string> {
+  fieldErrors: FieldErrors<F>
+  /** Mensaje general para el banner del formulario; `null` si todo quedó asociado a campos */
+  formError: string | null
+}
+
+export function mapApiErrorToForm<F extends string>(
+  error: unknown,
+  fields: readonly F[],
+  fallbackMessage: string,
+): FormErrorState<F> {
+  if (!(error instanceof ApiError)) {
+    return { fieldErrors: {}, formError: error instanceof Error && error.message ? error.message : fallbackMessage }
+  }
+
+  const fieldErrors: FieldErrors<F> = {}
+  const unmatchedMessages: string[] = []
+
+  error.fieldErrors.forEach(({ field, message }) => {
+    const normalizedField = field.toLowerCase()
+    // Los errores de propiedades anidadas (`library.name`) se muestran en el campo raíz
+    const formField = fields.find(
+      (candidate) =>
+        candidate.toLowerCase() === normalizedField || normalizedField.startsWith(`${candidate.toLowerCase()}.`),
+    )
+
+    if (!formField) {
+      unmatchedMessages.push(message)
+      return
+    }
+
+    fieldErrors[formField] ??= message
+  })
+
+  if (Object.keys(fieldErrors).length === 0) {
+    return { fieldErrors, formError: error.message || fallbackMessage }
+  }
+
+  return {
+    fieldErrors,
+    formError: unmatchedMessages.length > 0 ? unmatchedMessages.join(". ") : null,
+  }
+}
@@ -0,0 +1,105 @@
+// Reservas de libros prestados: una cola por libro atendida por orden de llegada. Al devolverse el libro,
+// la primera reserva en espera queda lista para recoger durante el plazo de la política de préstamo.
+import { getAvailableCopies } from "./copies"
+import { calculateDueDate, resolveLoanPolicy } from "./loan-policies"
+import { parseLoanDate } from "./loans"
+import type { Hold, HoldStatus, Loan } from "./types"
+
+export const HOLD_STATUS_LABELS: Record<HoldStatus, string> = {
+  waiting: "En espera",
+  ready: "Lista para recoger",
+  fulfilled: "Entregada",
+  cancelled: "Cancelada",
+  expired: "Expirada",
+}
+
+/** Reservas que siguen ocupando un lugar en la cola del libro */
+export function isHoldActive(hold: Pick<Hold, "status">): boolean {
+  return hold.status === "waiting" || hold.status === "ready"
+}
+
+/** Orden de la cola: la reserva apartada primero y después las demás por antigüedad */
+export function compareHoldsByQueue(left: Hold, right: Hold): number {
+  if (left.status !== right.status && (left.status === "ready" || right.status === "ready")) {
+    return left.status === "ready" ? -1 : 1
+  }
+
+  return (
+    (parseLoanDate(left.createdAt)?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+    (parseLoanDate(right.createdAt)?.getTime() ?? Number.MAX_SAFE_INTEGER)
+  )
+}
+
+/** Reservas activas de un libro en orden de atención */
+export function getHoldQueue(holds: Hold[], bookId: string): Hold[] {
+  return holds.filter((hold) => hold.bookId === bookId && isHoldActive(hold)).sort(compareHoldsByQueue)
+}
+
+/** Posición (desde 1) de una reserva en espera dentro de la cola de su libro; `null` si ya no espera */
+export function getHoldQueuePosition(holds: Hold[], hold: Hold): number | null {
+  if (hold.status !== "waiting") {
+    return null
+  }
+
+  const waitingHolds = getHoldQueue(holds, hold.bookId).filter((queued) => queued.status === "waiting")
+  const index = waitingHolds.findIndex((queued) => queued.id === hold.id)
+  return index === -1 ? null : index + 1
+}
+
+/** Fecha límite de recogida de un libro apartado el día `readyAt` en la biblioteca `libraryId` */
+export function calculateHoldExpiry(readyAt: Date, libraryId?: string): Date {
+  const policy = resolveLoanPolicy({ libraryId })
+  return calculateDueDate(readyAt, { ...policy, loanPeriodDays: policy.holdPickupDays })
+}
+
+/** Fecha límite para recoger una reserva apartada; `null` si aún no está lista */
+export function getHoldPickupDeadline(hold: Hold): Date | null {
+  if (hold.status !== "ready") {
+    return null
+  }
+
+  const expiresAt = parseLoanDate(hold.expiresAt)
+  if (expiresAt) return expiresAt
+
+  const readyAt = parseLoanDate(hold.readyAt)
+  return readyAt ? calculateHoldExpiry(readyAt, getHoldPickupLibraryId(hold)) : null
+}
+
+/**
+ * Biblioteca donde se recoge una reserva apartada: la del ejemplar disponible, que puede no ser la del
+ * registro del libro
+ */
+export function getHoldPickupLibraryId(hold: Hold): string | undefined {
+  if (!hold.book) {
+    return undefined
+  }
+
+  return getAvailableCopies(hold.book)[0]?.libraryId ?? hold.book.libraryId
+}
+
+export function isHoldPickupExpired(hold: Hold, now = new Date()): boolean {
+  const deadline = getHoldPickupDeadline(hold)
+  return deadline !== null && deadline < now
+}
+
+/** Otro miembro espera el libro del préstamo: no se debe renovar */
+export function hasPendingHoldForLoan(holds: Hold[], loan: Pick<Loan, "bookId" | "memberId">): boolean {
+  return holds.some((hold) => hold.bookId === loan.bookId && hold.memberId !== loan.memberId && isHoldActive(hold))
+}
+
+/**
+ * Reserva de otro miembro que impide prestar el libro a `memberId` sin saltarse la cola. Las reservas activas
+ * anteriores a la suya (todas, si no reservó) necesitan un ejemplar antes, así que solo bloquea cuando no quedan
+ * más ejemplares disponibles que esas reservas.
+ */
+export function getHoldAheadOfMember(
+  holds: Hold[],
+  bookId: string,
+  memberId: string,
+  availableCopyCount: number,
+): Hold | undefined {
+  const queue = getHoldQueue(holds, bookId)
+  const memberPosition = queue.findIndex((hold) => hold.memberId === memberId)
+  const holdsAhead = memberPosition === -1 ? queue : queue.slice(0, memberPosition)
+  return availableCopyCount <= holdsAhead.length ? holdsAhead[0] : undefined
+}
@@ -0,0 +1,105 @@
+// Validación de ISBN. Se aceptan ISBN-10 e ISBN-13 con guiones o espacios; el catálogo guarda siempre
+// el ISBN-13 sin separadores para poder comparar títulos entre sí.
+import { isBookInLibrary } from "./copies"
+import type { Book } from "./types"
+
+export type IsbnParseResult = { isbn: string; error?: undefined } | { isbn?: undefined; error: string }
+
+/** Quita guiones y espacios y pasa a mayúscula la `X` de control del ISBN-10 */
+export function normalizeIsbn(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase()
+}
+
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) {
+    return false
+  }
+
+  const sum = isbn
+    .split("")
+    .reduce((total, char, index) => total + (char === "X" ? 10 : Number(char)) * (10 - index), 0)
+  return sum % 11 === 0
+}
+
+function getIsbn13CheckDigit(digits: string): number {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0)
+  return (10 - (sum % 10)) % 10
+}
+
+export function isValidIsbn13(isbn: string): boolean {
+  return /^97[89]\d{10}$/.test(isbn) && getIsbn13CheckDigit(isbn) === Number(isbn[12])
+}
+
+/** Convierte un ISBN-10 válido y normalizado al ISBN-13 equivalente (prefijo 978) */
+export function convertIsbn10To13(isbn10: string): string {
+  const digits = `978${isbn10.slice(0, 9)}`
+  return `${digits}${getIsbn13CheckDigit(digits)}`
+}
+
+/** ISBN-10 equivalente a un ISBN-13 normalizado; solo existe para el prefijo 978 */
+export function convertIsbn13To10(isbn13: string): string | undefined {
+  if (!isbn13.startsWith("978")) {
+    return undefined
+  }
+
+  const digits = isbn13.slice(3, 12)
+  const sum = digits.split("").reduce((total, char, index) => total + Number(char) * (10 - index), 0)
+  const checkDigit = (11 - (sum % 11)) % 11
+  return `${digits}${checkDigit === 10 ? "X" : checkDigit}`
+}
+
+/** Formas sin separadores en que el backend puede tener guardado `isbn` (ISBN-13 normalizado) */
+export function getIsbnSearchVariants(isbn: string): string[] {
+  const isbn10 = convertIsbn13To10(isbn)
+  return isbn10 ? [isbn, isbn10] : [isbn]
+}
+
+/** Valida un ISBN escrito por el usuario y devuelve su forma ISBN-13 normalizada o el motivo del rechazo */
+export function parseIsbn(value: string): IsbnParseResult {
+  const isbn = normalizeIsbn(value)
+
+  if (!/^[\dX]+$/.test(isbn)) {
+    return { error: "El ISBN solo puede contener dígitos, guiones y espacios" }
+  }
+
+  if (isbn.length === 10) {
+    return isValidIsbn10(isbn)
+      ? { isbn: convertIsbn10To13(isbn) }
+      : { error: "El ISBN-10 no es válido: revisa el dígito de control" }
+  }
+
+  if (isbn.length === 13) {
+    return isValidIsbn13(isbn) ? { isbn } : { error: "El ISBN-13 no es válido: revisa el dígito de control" }
+  }
+
+  return { error: "El ISBN debe tener 10 o 13 dígitos" }
+}
+
+/** El ISBN del libro coincide con `isbn` (ya normalizado), aunque se haya guardado como ISBN-10 o con guiones */
+export function bookHasIsbn(book: Pick<Book, "isbn">, isbn: string): boolean {
+  if (!book.isbn) {
+    return false
+  }
+
+  const parsed = parseIsbn(book.isbn)
+  return (parsed.isbn ?? normalizeIsbn(book.isbn)) === isbn
+}
+
+/** Libro de la biblioteca con el mismo ISBN que `isbn` (ya normalizado), ignorando el que se está editando */
+export function findBookWithIsbn(
+  books: Book[],
+  isbn: string,
+  libraryId: string,
+  excludeBookId?: string,
+): Book | undefined {
+  return books.find(
+    (book) => book.id !== excludeBookId && isBookInLibrary(book, libraryId) && bookHasIsbn(book, isbn),
+  )
+}
+
+export function getDuplicateIsbnError(book: Pick<Book, "title">): string {
+  return `Ya existe un libro con este ISBN en la biblioteca: «${book.title}»`
+}
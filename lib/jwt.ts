@@ -0,0 +1,47 @@
+// Lectura de los claims de un JWT sin verificar la firma: la verificación es responsabilidad del backend.
+// Solo usa APIs web (atob, TextDecoder) para funcionar en el navegador, en Node y en el Edge runtime.
+export interface JwtClaims {
+  sub?: string
+  /** Expiración en segundos desde epoch */
+  exp?: number
+  iat?: number
+  email?: string
+  name?: string
+  [claim: string]: unknown
+}
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/")
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=")
+  const bytes = Uint8Array.from(atob(padded), (character) => character.charCodeAt(0))
+  return new TextDecoder().decode(bytes)
+}
+
+export function decodeJwt(token: string): JwtClaims | null {
+  const [, payload] = token.split(".")
+  if (!payload) {
+    return null
+  }
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(payload))
+    return claims && typeof claims === "object" && !Array.isArray(claims) ? (claims as JwtClaims) : null
+  } catch {
+    return null
+  }
+}
+
+/** Momento de expiración en milisegundos, o `null` si el token no es un JWT o no declara `exp` */
+export function getTokenExpiration(token: string): number | null {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === "number" && Number.isFinite(exp) ? exp * 1000 : null
+}
+
+/**
+ * Los tokens sin `exp` (o que no son JWT) se consideran vigentes: solo el backend puede rechazarlos.
+ * El margen evita enviar un token que expire mientras la solicitud está en vuelo.
+ */
+export function isTokenExpired(token: string, leewayMs = 10000, now = Date.now()): boolean {
+  const expiresAt = getTokenExpiration(token)
+  return expiresAt !== null && expiresAt - leewayMs <= now
+}
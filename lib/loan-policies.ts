@@ -0,0 +1,135 @@
+// Políticas de préstamo: plazo por defecto, máximo de préstamos simultáneos, reglas de renovación,
+// multas por atraso y plazo de recogida de reservas, configurables por biblioteca y por tipo de miembro.
+// Solo calculan valores sugeridos; el backend sigue validando cada préstamo.
+import { z } from "zod"
+
+export interface LoanPolicy {
+  /** Días de préstamo a partir de la fecha de salida */
+  loanPeriodDays: number
+  /** Préstamos activos que un miembro puede tener a la vez */
+  maxActiveLoans: number
+  /** Veces que se puede renovar un mismo préstamo */
+  maxRenewals: number
+  /** Días de atraso a partir de los cuales ya no se permite renovar; `0` bloquea cualquier atraso */
+  renewalOverdueGraceDays: number
+  /** Multa por cada día de atraso en la devolución */
+  dailyFineRate: number
+  /** Multas pendientes a partir de las cuales el miembro no puede llevarse más libros */
+  maxOutstandingFines: number
+  /** Días que un libro reservado queda apartado tras su devolución antes de pasar a la siguiente reserva */
+  holdPickupDays: number
+}
+
+export interface LoanPolicyConfig {
+  default: LoanPolicy
+  /** Ajustes por id de biblioteca */
+  libraries: Record<string, Partial<LoanPolicy>>
+  /** Ajustes por tipo de miembro (`memberType`); prevalecen sobre los de la biblioteca */
+  memberTypes: Record<string, Partial<LoanPolicy>>
+}
+
+export interface LoanPolicyContext {
+  libraryId?: string
+  memberType?: string
+}
+
+const DEFAULT_LOAN_POLICY: LoanPolicy = {
+  loanPeriodDays: 14,
+  maxActiveLoans: 5,
+  maxRenewals: 2,
+  renewalOverdueGraceDays: 7,
+  dailyFineRate: 0.5,
+  maxOutstandingFines: 10,
+  holdPickupDays: 3,
+}
+
+const positiveIntegerSchema = z.number().int().positive()
+const nonNegativeIntegerSchema = z.number().int().nonnegative()
+const nonNegativeAmountSchema = z.number().nonnegative()
+const partialPolicySchema = z.object({
+  loanPeriodDays: positiveIntegerSchema.optional(),
+  maxActiveLoans: positiveIntegerSchema.optional(),
+  maxRenewals: nonNegativeIntegerSchema.optional(),
+  renewalOverdueGraceDays: nonNegativeIntegerSchema.optional(),
+  dailyFineRate: nonNegativeAmountSchema.optional(),
+  maxOutstandingFines: nonNegativeAmountSchema.optional(),
+  holdPickupDays: positiveIntegerSchema.optional(),
+})
+const loanPolicyConfigSchema = z.object({
+  default: partialPolicySchema.optional(),
+  libraries: z.record(partialPolicySchema).optional(),
+  memberTypes: z.record(partialPolicySchema).optional(),
+})
+
+/**
+ * Lee `NEXT_PUBLIC_LOAN_POLICIES`, un JSON con la forma de `LoanPolicyConfig` en el que todo es opcional,
+ * por ejemplo `{"default":{"loanPeriodDays":21},"memberTypes":{"student":{"maxActiveLoans":3}}}`.
+ */
+function readConfiguredPolicies(value: string | undefined): LoanPolicyConfig {
+  let parsed: z.infer<typeof loanPolicyConfigSchema> = {}
+
+  if (value?.trim()) {
+    try {
+      parsed = loanPolicyConfigSchema.parse(JSON.parse(value))
+    } catch (error) {
+      console.warn("NEXT_PUBLIC_LOAN_POLICIES no es válido; se usan las políticas por defecto", error)
+    }
+  }
+
+  return {
+    default: { ...DEFAULT_LOAN_POLICY, ...parsed.default },
+    libraries: parsed.libraries ?? {},
+    memberTypes: parsed.memberTypes ?? {},
+  }
+}
+
+let loanPolicies = readConfiguredPolicies(process.env.NEXT_PUBLIC_LOAN_POLICIES)
+
+export function configureLoanPolicies(overrides: Partial<LoanPolicyConfig>) {
+  loanPolicies = {
+    default: { ...loanPolicies.default, ...overrides.default },
+    libraries: { ...loanPolicies.libraries, ...overrides.libraries },
+    memberTypes: { ...loanPolicies.memberTypes, ...overrides.memberTypes },
+  }
+}
+
+/** Política aplicable: la general, luego la de la biblioteca y por último la del tipo de miembro */
+export function resolveLoanPolicy({ libraryId, memberType }: LoanPolicyContext = {}): LoanPolicy {
+  return {
+    ...loanPolicies.default,
+    ...(libraryId ? loanPolicies.libraries[libraryId] : undefined),
+    ...(memberType ? loanPolicies.memberTypes[memberType] : undefined),
+  }
+}
+
+/** Fecha de devolución: el plazo de la política contado desde `loanDate`, al final de ese día */
+export function calculateDueDate(loanDate: Date, policy: LoanPolicy): Date {
+  const dueDate = new Date(loanDate)
+  dueDate.setDate(dueDate.getDate() + policy.loanPeriodDays)
+  dueDate.setHours(23, 59, 59, 999)
+  return dueDate
+}
+
+/** Mensaje de bloqueo si el miembro ya alcanzó el máximo de préstamos activos; `null` si puede llevar otro */
+export function getLoanLimitError(activeLoansCount: number, policy: LoanPolicy): string | null {
+  if (activeLoansCount < policy.maxActiveLoans) {
+    return null
+  }
+
+  return `El miembro ya tiene ${activeLoansCount} ${
+    activeLoansCount === 1 ? "préstamo activo" : "préstamos activos"
+  } y el máximo permitido es ${policy.maxActiveLoans}`
+}
+
+/** Valor `YYYY-MM-DD` en hora local para los campos `<input type="date">` */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** Interpreta un día `YYYY-MM-DD` como el final de ese día en hora local */
+export function fromDateInputValue(value: string): Date | null {
+  const date = new Date(`${value}T23:59:59.999`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
@@ -0,0 +1,151 @@
+// Reglas de estado de un préstamo compartidas por las páginas y la paginación local
+import { calculateDueDate, resolveLoanPolicy, type LoanPolicy } from "./loan-policies"
+import type { Book, Library, Loan, LoanStatus, Member } from "./types"
+
+export function parseLoanDate(value?: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+type LoanDueDateFields = Pick<Loan, "returnDate" | "loanDate"> &
+  Partial<Pick<Loan, "dueDate" | "isReturned" | "copy" | "book" | "library" | "member">>
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Política de la biblioteca del libro y del tipo de miembro del préstamo */
+export function getLoanPolicy(loan: Partial<Pick<Loan, "copy" | "book" | "library" | "member">>): LoanPolicy {
+  return resolveLoanPolicy({
+    libraryId: loan.library?.id ?? loan.copy?.libraryId ?? loan.book?.libraryId,
+    memberType: loan.member?.memberType,
+  })
+}
+
+/**
+ * Fecha objetivo de devolución: `dueDate` si el backend la envía o, mientras el préstamo sigue activo,
+ * `returnDate` (que al devolverlo pasa a ser la fecha real). Si no hay ninguna se calcula con la
+ * política de préstamo a partir de `loanDate`.
+ */
+export function getLoanDueDate(loan: LoanDueDateFields): Date | null {
+  const dueDate = parseLoanDate(loan.dueDate) ?? (loan.isReturned ? null : parseLoanDate(loan.returnDate))
+  if (dueDate) return dueDate
+
+  const loanDate = parseLoanDate(loan.loanDate)
+  return loanDate ? calculateDueDate(loanDate, getLoanPolicy(loan)) : null
+}
+
+export function isLoanOverdue(loan: LoanDueDateFields & Pick<Loan, "isReturned">, now = new Date()): boolean {
+  const dueDate = getLoanDueDate(loan)
+  return !loan.isReturned && dueDate !== null && dueDate < now
+}
+
+/** Orden de historial: los préstamos más recientes primero y los que no tienen fecha al final */
+export function compareLoansByDateDesc(left: Pick<Loan, "loanDate">, right: Pick<Loan, "loanDate">): number {
+  return (parseLoanDate(right.loanDate)?.getTime() ?? 0) - (parseLoanDate(left.loanDate)?.getTime() ?? 0)
+}
+
+type RenewableLoan = LoanDueDateFields & Pick<Loan, "isReturned" | "renewalCount" | "renewals" | "hasPendingHold">
+
+export function getLoanRenewalCount(loan: Pick<Loan, "renewalCount" | "renewals">): number {
+  return loan.renewalCount ?? loan.renewals?.length ?? 0
+}
+
+/** Motivo por el que la política no permite renovar el préstamo; `null` si se puede renovar */
+export function getRenewalBlockReason(loan: RenewableLoan, now = new Date()): string | null {
+  const policy = getLoanPolicy(loan)
+
+  if (loan.isReturned) {
+    return "El préstamo ya fue devuelto"
+  }
+
+  if (getLoanRenewalCount(loan) >= policy.maxRenewals) {
+    return `Alcanzó el máximo de ${policy.maxRenewals} ${policy.maxRenewals === 1 ? "renovación" : "renovaciones"}`
+  }
+
+  if (loan.hasPendingHold) {
+    return "El libro tiene reservas pendientes"
+  }
+
+  const dueDate = getLoanDueDate(loan)
+  const overdueDays = dueDate ? Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS) : 0
+  if (dueDate && dueDate < now && overdueDays >= policy.renewalOverdueGraceDays) {
+    return policy.renewalOverdueGraceDays === 0
+      ? "Los préstamos vencidos no se pueden renovar"
+      : `Lleva ${overdueDays} días de atraso; solo se renueva con menos de ${policy.renewalOverdueGraceDays}`
+  }
+
+  return null
+}
+
+/** Nueva fecha límite: un plazo completo desde la fecha límite actual, o desde hoy si ya venció */
+export function getRenewalDueDate(loan: LoanDueDateFields, now = new Date()): Date {
+  const dueDate = getLoanDueDate(loan)
+  return calculateDueDate(dueDate && dueDate > now ? dueDate : now, getLoanPolicy(loan))
+}
+
+/** Fecha de un préstamo en formato local; `null` si falta o no es válida */
+export function formatLoanDate(value?: string | null): string | null {
+  return parseLoanDate(value)?.toLocaleDateString("es-ES") ?? null
+}
+
+/**
+ * Los días `from` y `to` (`YYYY-MM-DD`, hora local) son inclusivos y se comparan con `loanDate`.
+ * Un préstamo sin fecha solo cumple el rango vacío.
+ */
+export function isLoanWithinDateRange(loan: Pick<Loan, "loanDate">, from?: string, to?: string): boolean {
+  const loanDate = parseLoanDate(loan.loanDate)
+  if (!loanDate) return !from && !to
+  if (from && loanDate < new Date(`${from}T00:00:00`)) return false
+  if (to && loanDate > new Date(`${to}T23:59:59.999`)) return false
+  return true
+}
+
+export interface LoanRelations {
+  booksById: ReadonlyMap<string, Book>
+  membersById: ReadonlyMap<string, Member>
+  librariesById: ReadonlyMap<string, Library>
+}
+
+export interface MissingLoanRelationIds {
+  bookIds: string[]
+  memberIds: string[]
+}
+
+/** Libros y miembros que el backend no incluyó en los préstamos, sin repetir y ordenados para usarlos como clave */
+export function getMissingLoanRelationIds(loans: Loan[]): MissingLoanRelationIds {
+  const uniqueIds = (ids: string[]) => Array.from(new Set(ids)).sort()
+
+  return {
+    bookIds: uniqueIds(loans.filter((loan) => !loan.book).map((loan) => loan.bookId)),
+    memberIds: uniqueIds(loans.filter((loan) => !loan.member).map((loan) => loan.memberId)),
+  }
+}
+
+/** Completa `book`, `member` y `library` cuando el backend no incluye las relaciones del préstamo */
+export function withLoanRelations(loan: Loan, { booksById, membersById, librariesById }: LoanRelations): Loan {
+  const book = loan.book ?? booksById.get(loan.bookId)
+  const member = loan.member ?? membersById.get(loan.memberId)
+  // El ejemplar prestado indica la biblioteca real; el libro solo la de su registro
+  const copyLibrary = loan.copy ? (loan.copy.library ?? librariesById.get(loan.copy.libraryId)) : undefined
+  const library =
+    loan.library ?? copyLibrary ?? (book ? (book.library ?? librariesById.get(book.libraryId)) : undefined)
+
+  return { ...loan, book, member, library }
+}
+
+/** Fecha límite en formato local, calculada por la política si el backend no la envía */
+export function formatLoanDueDate(loan: LoanDueDateFields): string | null {
+  return getLoanDueDate(loan)?.toLocaleDateString("es-ES") ?? null
+}
+
+/** `active` incluye los vencidos: son préstamos que aún no se devolvieron */
+export function matchesLoanStatus(loan: Loan, status: LoanStatus, now = new Date()): boolean {
+  switch (status) {
+    case "active":
+      return !loan.isReturned
+    case "returned":
+      return loan.isReturned
+    case "overdue":
+      return isLoanOverdue(loan, now)
+  }
+}
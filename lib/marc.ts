@@ -0,0 +1,206 @@
+// Registros bibliográficos MARC21 para intercambiar catálogo con otras bibliotecas. Se leen archivos
+// MARC21 binarios (ISO 2709, `.mrc`) y MARCXML, y se exportan libros como MARCXML. Del registro solo se
+// usan el título (245), el autor (100, o 110 si es una entidad) y el ISBN (020).
+import type { Book } from "./types"
+
+export interface MarcSubfield {
+  code: string
+  value: string
+}
+
+export interface MarcDataField {
+  tag: string
+  ind1: string
+  ind2: string
+  subfields: MarcSubfield[]
+}
+
+export interface MarcRecord {
+  leader: string
+  controlFields: Record<string, string>
+  dataFields: MarcDataField[]
+}
+
+/** Datos de un registro MARC que corresponden a `CreateBookDto`; la biblioteca se elige al importar */
+export interface MarcBookFields {
+  title: string
+  author: string
+  isbn: string
+}
+
+const RECORD_TERMINATOR = 0x1d
+const FIELD_TERMINATOR = 0x1e
+const SUBFIELD_DELIMITER = "\x1f"
+const MARCXML_NAMESPACE = "http://www.loc.gov/MARC21/slim"
+
+// Los campos 001-009 son de control: no tienen indicadores ni subcampos
+const isControlTag = (tag: string) => /^00\d$/.test(tag)
+
+/**
+ * Lee un archivo MARC21 binario. Las longitudes y posiciones del directorio están en bytes, por eso se
+ * recorta el buffer antes de decodificar. Solo se admite UTF-8 (posición 9 del líder en `a`); los registros
+ * en MARC-8 se leen igual y pueden mostrar mal los caracteres acentuados.
+ */
+export function parseMarc21(buffer: ArrayBuffer): MarcRecord[] {
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder("utf-8")
+  const records: MarcRecord[] = []
+  let offset = 0
+
+  while (offset < bytes.length) {
+    // Saltos de línea o espacios entre registros que agregan algunos exportadores
+    if (bytes[offset] === 0x0a || bytes[offset] === 0x0d || bytes[offset] === 0x20) {
+      offset++
+      continue
+    }
+
+    const leader = decoder.decode(bytes.subarray(offset, offset + 24))
+    const recordLength = Number.parseInt(leader.slice(0, 5), 10)
+    const baseAddress = Number.parseInt(leader.slice(12, 17), 10)
+    if (!Number.isFinite(recordLength) || !Number.isFinite(baseAddress) || recordLength < 24) {
+      throw new Error(`El registro MARC ${records.length + 1} no tiene un líder válido`)
+    }
+
+    const record = bytes.subarray(offset, offset + recordLength)
+    const controlFields: Record<string, string> = {}
+    const dataFields: MarcDataField[] = []
+
+    for (let entry = 24; entry + 12 <= baseAddress - 1 && record[entry] !== FIELD_TERMINATOR; entry += 12) {
+      const directoryEntry = decoder.decode(record.subarray(entry, entry + 12))
+      const tag = directoryEntry.slice(0, 3)
+      const fieldLength = Number.parseInt(directoryEntry.slice(3, 7), 10)
+      const fieldStart = baseAddress + Number.parseInt(directoryEntry.slice(7, 12), 10)
+      let fieldBytes = record.subarray(fieldStart, fieldStart + fieldLength)
+      if (fieldBytes[fieldBytes.length - 1] === FIELD_TERMINATOR) {
+        fieldBytes = fieldBytes.subarray(0, -1)
+      }
+      const content = decoder.decode(fieldBytes)
+
+      if (isControlTag(tag)) {
+        controlFields[tag] = content
+        continue
+      }
+
+      const [indicators = "", ...subfieldChunks] = content.split(SUBFIELD_DELIMITER)
+      dataFields.push({
+        tag,
+        ind1: indicators[0] ?? " ",
+        ind2: indicators[1] ?? " ",
+        subfields: subfieldChunks
+          .filter((chunk) => chunk.length > 0)
+          .map((chunk) => ({ code: chunk[0], value: chunk.slice(1) })),
+      })
+    }
+
+    records.push({ leader, controlFields, dataFields })
+    offset += recordLength
+    if (bytes[offset - 1] !== RECORD_TERMINATOR) {
+      throw new Error(`El registro MARC ${records.length} no termina donde indica su líder`)
+    }
+  }
+
+  return records
+}
+
+/** Lee un documento MARCXML (`<collection>` o un único `<record>`), con o sin prefijo de espacio de nombres */
+export function parseMarcXml(text: string): MarcRecord[] {
+  const document = new DOMParser().parseFromString(text, "application/xml")
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("El archivo MARCXML no es un XML válido")
+  }
+
+  const childElements = (parent: Element, name: string) =>
+    Array.from(parent.children).filter((child) => child.localName === name)
+
+  return Array.from(document.getElementsByTagNameNS("*", "record")).map((recordElement) => {
+    const controlFields: Record<string, string> = {}
+    for (const field of childElements(recordElement, "controlfield")) {
+      controlFields[field.getAttribute("tag") ?? ""] = field.textContent ?? ""
+    }
+
+    return {
+      leader: childElements(recordElement, "leader")[0]?.textContent ?? "",
+      controlFields,
+      dataFields: childElements(recordElement, "datafield").map((field) => ({
+        tag: field.getAttribute("tag") ?? "",
+        ind1: field.getAttribute("ind1") ?? " ",
+        ind2: field.getAttribute("ind2") ?? " ",
+        subfields: childElements(field, "subfield").map((subfield) => ({
+          code: subfield.getAttribute("code") ?? "",
+          value: subfield.textContent ?? "",
+        })),
+      })),
+    }
+  })
+}
+
+/** Distingue MARCXML de MARC21 binario por el contenido, no por la extensión */
+export async function parseMarcFile(file: Blob): Promise<MarcRecord[]> {
+  const buffer = await file.arrayBuffer()
+  const head = new TextDecoder("utf-8").decode(buffer.slice(0, 64)).replace(/^\uFEFF/, "").trimStart()
+
+  return head.startsWith("<") ? parseMarcXml(new TextDecoder("utf-8").decode(buffer)) : parseMarc21(buffer)
+}
+
+const getSubfields = (record: MarcRecord, tag: string, codes: string) =>
+  record.dataFields
+    .filter((field) => field.tag === tag)
+    .map((field) => field.subfields.filter((subfield) => codes.includes(subfield.code)).map(({ value }) => value))
+
+// La puntuación ISBD al final de cada subcampo (" /", " :", ",", ".") separa elementos dentro del registro
+const stripTrailingPunctuation = (value: string) => value.replace(/[\s/:;,.=]+$/, "").trim()
+// En el autor se conserva el punto de una inicial final ("Tolkien, J. R. R.")
+const stripAuthorPunctuation = (value: string) => value.trim().replace(/,+$/, "").replace(/(?<!\b[A-Z])\.$/, "")
+
+/** Título (245 $a $b), autor (100 $a o 110 $a) e ISBN (primer 020 $a) del registro, sin validar */
+export function getMarcBookFields(record: MarcRecord): MarcBookFields {
+  const [titleParts = []] = getSubfields(record, "245", "ab")
+  const [personalAuthor] = getSubfields(record, "100", "a")
+  const [corporateAuthor] = getSubfields(record, "110", "a")
+  // 020 $a puede llevar una calificación: "9780307474728 (pbk.)"
+  const isbn = getSubfields(record, "020", "a").flat()[0]?.split(/\s+/)[0] ?? ""
+
+  return {
+    title: stripTrailingPunctuation(titleParts.map(stripTrailingPunctuation).join(" : ")),
+    author: stripAuthorPunctuation((personalAuthor ?? corporateAuthor ?? [])[0] ?? ""),
+    isbn,
+  }
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+function dataFieldXml(tag: string, ind1: string, ind2: string, subfields: [string, string | undefined][]): string {
+  const present = subfields.filter((entry): entry is [string, string] => Boolean(entry[1]))
+  if (present.length === 0) {
+    return ""
+  }
+
+  const subfieldXml = present
+    .map(([code, value]) => `      <subfield code="${code}">${escapeXml(value)}</subfield>`)
+    .join("\n")
+  return `    <datafield tag="${tag}" ind1="${ind1}" ind2="${ind2}">\n${subfieldXml}\n    </datafield>\n`
+}
+
+/**
+ * Colección MARCXML con un registro mínimo por libro: 001 (id), 020, 100, 245 y 852 (biblioteca que lo
+ * aloja). El autor se exporta tal cual porque el catálogo no distingue apellidos de nombres.
+ */
+export function booksToMarcXml(books: Book[]): string {
+  const records = books.map(
+    (book) =>
+      "  <record>\n" +
+      "    <leader>00000nam a2200000 a 4500</leader>\n" +
+      `    <controlfield tag="001">${escapeXml(book.id)}</controlfield>\n` +
+      dataFieldXml("020", " ", " ", [["a", book.isbn]]) +
+      dataFieldXml("100", "1", " ", [["a", book.author]]) +
+      dataFieldXml("245", book.author ? "1" : "0", "0", [["a", book.title]]) +
+      dataFieldXml("852", " ", " ", [["a", book.library?.name]]) +
+      "  </record>\n",
+  )
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<collection xmlns="${MARCXML_NAMESPACE}">\n${records.join("")}</collection>\n`
+  )
+}
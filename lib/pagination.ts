@@ -0,0 +1,155 @@
+// Paginación de listados. Si el backend devuelve el arreglo completo (no soporta `page`/`limit`),
+// el filtrado, el orden y el recorte se resuelven aquí para que las páginas funcionen igual.
+import type { PageResponse, Paginated, PaginationQuery } from "./types"
+
+export const DEFAULT_PAGE_SIZE = 20
+
+const PAGINATION_KEYS: ReadonlySet<string> = new Set(["page", "limit", "sort", "order"])
+
+/** Filtro local para parámetros que no corresponden a un campo del elemento (p. ej. `activeOnly`) */
+export type LocalFilterMatchers<T> = Record<string, (item: T, value: unknown) => boolean>
+
+function compareValues(left: unknown, right: unknown): number {
+  if (left === right) return 0
+  // Los valores ausentes van siempre al final
+  if (left === undefined || left === null || left === "") return 1
+  if (right === undefined || right === null || right === "") return -1
+
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right
+  }
+
+  return String(left).localeCompare(String(right), "es", { sensitivity: "base", numeric: true })
+}
+
+function matchesFilter<T>(item: T, key: string, value: unknown, matchers: LocalFilterMatchers<T>): boolean {
+  const matcher = matchers[key]
+  if (matcher) {
+    return matcher(item, value)
+  }
+
+  const fieldValue = (item as Record<string, unknown>)[key]
+  if (fieldValue === undefined) {
+    // Parámetros sin campo equivalente: se asume que el backend ya los aplicó
+    return true
+  }
+
+  // Los identificadores se comparan completos: `libraryId=3` no debe incluir la biblioteca 13
+  if (key === "id" || key.endsWith("Id")) {
+    return String(fieldValue) === String(value)
+  }
+
+  if (typeof fieldValue === "string" && typeof value === "string") {
+    return fieldValue.toLocaleLowerCase("es").includes(value.toLocaleLowerCase("es"))
+  }
+
+  return fieldValue === value
+}
+
+export function paginateLocally<T>(
+  items: T[],
+  { page = 1, limit = DEFAULT_PAGE_SIZE, sort, order = "asc", ...filters }: PaginationQuery & Record<string, unknown>,
+  matchers: LocalFilterMatchers<T> = {},
+): Paginated<T> {
+  const activeFilters = Object.entries(filters).filter(
+    ([key, value]) => !PAGINATION_KEYS.has(key) && value !== undefined && value !== null && value !== "",
+  )
+  const filtered = items.filter((item) => activeFilters.every(([key, value]) => matchesFilter(item, key, value, matchers)))
+
+  const sorted = sort
+    ? [...filtered].sort((left, right) => {
+        const comparison = compareValues(
+          (left as Record<string, unknown>)[sort],
+          (right as Record<string, unknown>)[sort],
+        )
+        return order === "desc" ? -comparison : comparison
+      })
+    : filtered
+
+  const totalPages = Math.max(1, Math.ceil(sorted.length / limit))
+  const currentPage = Math.min(Math.max(1, page), totalPages)
+
+  return {
+    items: sorted.slice((currentPage - 1) * limit, currentPage * limit),
+    total: sorted.length,
+    page: currentPage,
+    limit,
+    totalPages,
+  }
+}
+
+/** Convierte la respuesta de un listado, paginada o no, en una página con sus totales */
+export function toPaginated<T>(
+  response: PageResponse<T>,
+  query: PaginationQuery & object = {},
+  matchers: LocalFilterMatchers<T> = {},
+): Paginated<T> {
+  if (response.isComplete) {
+    return paginateLocally(response.items, query as PaginationQuery & Record<string, unknown>, matchers)
+  }
+
+  const limit = response.limit || query.limit || DEFAULT_PAGE_SIZE
+  const page = response.page || query.page || 1
+
+  if (response.total !== undefined) {
+    return {
+      items: response.items,
+      total: response.total,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(response.total / limit)),
+    }
+  }
+
+  // Sin total declarado solo se sabe que hay al menos los elementos recibidos hasta esta página, y una
+  // página llena indica que puede haber una más
+  return {
+    items: response.items,
+    total: (page - 1) * limit + response.items.length,
+    page,
+    limit,
+    totalPages: response.items.length >= limit ? page + 1 : page,
+  }
+}
+
+/** Tamaño de página con el que se recorren los listados completos */
+export const ALL_PAGES_LIMIT = 100
+
+function hasMorePages<T>(result: Paginated<T> | PageResponse<T>, received: number, limit: number): boolean {
+  if ("totalPages" in result) {
+    return result.page < result.totalPages
+  }
+
+  // Sin total declarado, una página llena indica que puede haber más
+  return !result.isComplete && (result.total !== undefined ? received < result.total : result.items.length >= limit)
+}
+
+/**
+ * Recorre todas las páginas de un listado con los mismos filtros y orden, p. ej. para exportarlo completo.
+ * Acepta páginas ya resueltas (`getPage`) o la respuesta del backend (`PageResponse`); en ese caso un arreglo
+ * completo basta con la primera petición. Se detiene si una página llega vacía o el backend ignora `page`
+ * y repite la anterior, para no quedar en un bucle infinito.
+ */
+export async function fetchAllPages<T, Q extends PaginationQuery>(
+  getPage: (query: Q) => Promise<Paginated<T> | PageResponse<T>>,
+  query: Q,
+  limit = ALL_PAGES_LIMIT,
+): Promise<T[]> {
+  const items: T[] = []
+  let previousFirstItem: string | undefined
+
+  for (let page = 1; ; page++) {
+    const result = await getPage({ ...query, page, limit })
+    const firstItem = JSON.stringify(result.items[0])
+    const pageAdvanced = (result.page === undefined || result.page === page) && firstItem !== previousFirstItem
+    if (result.items.length === 0 || !pageAdvanced) {
+      return items
+    }
+
+    items.push(...result.items)
+    previousFirstItem = firstItem
+    if (!hasMorePages(result, items.length, limit)) {
+      return items
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// Modelo de roles y permisos del panel. Solo decide qué acciones se muestran en la interfaz:
+// el backend sigue siendo quien autoriza cada operación.
+
+export const ROLES = ["admin", "staff"] as const
+export type Role = (typeof ROLES)[number]
+
+export type Permission =
+  | "books:write"
+  | "books:delete"
+  | "libraries:write"
+  | "libraries:delete"
+  | "members:write"
+  | "members:delete"
+  | "loans:create"
+  | "loans:return"
+  | "loans:renew"
+  | "fines:manage"
+  | "holds:manage"
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  // Administración de catálogos, bibliotecas y miembros
+  admin: [
+    "books:write",
+    "books:delete",
+    "libraries:write",
+    "libraries:delete",
+    "members:write",
+    "members:delete",
+    "loans:create",
+    "loans:return",
+    "loans:renew",
+    "fines:manage",
+    "holds:manage",
+  ],
+  // Personal de circulación: préstamos, devoluciones, renovaciones, multas y reservas
+  staff: ["loans:create", "loans:return", "loans:renew", "fines:manage", "holds:manage"],
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrador",
+  staff: "Circulación",
+}
+
+// Nombres alternativos que algunos backends usan para los mismos roles
+const ROLE_ALIASES: Record<string, Role> = {
+  admin: "admin",
+  administrator: "admin",
+  role_admin: "admin",
+  staff: "staff",
+  librarian: "staff",
+  circulation: "staff",
+  role_staff: "staff",
+}
+
+function isRole(value: string | undefined): value is Role {
+  return (ROLES as readonly string[]).includes(value ?? "")
+}
+
+/**
+ * Rol que se asume cuando ni el JWT ni la respuesta de login declaran uno. Por defecto es el de
+ * menor privilegio; los backends que aún no envían roles pueden fijarlo con `NEXT_PUBLIC_DEFAULT_ROLE`.
+ */
+export const DEFAULT_ROLE: Role = (() => {
+  const configuredRole = process.env.NEXT_PUBLIC_DEFAULT_ROLE?.trim().toLowerCase()
+  return isRole(configuredRole) ? configuredRole : "staff"
+})()
+
+function toRoleNames(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.split(/[\s,]+/).filter(Boolean)
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => (typeof item === "string" ? [item] : []))
+  }
+
+  return []
+}
+
+/**
+ * Lee los roles declarados en los claims de un JWT o en una respuesta de login: `roles`, `role`
+ * o los mismos campos dentro de `user`. Devuelve los nombres tal como vienen del backend.
+ */
+export function extractRoleNames(source: unknown): string[] {
+  if (!source || typeof source !== "object") {
+    return []
+  }
+
+  const record = source as Record<string, unknown>
+  const names = [...toRoleNames(record.roles), ...toRoleNames(record.role)]
+
+  return names.length > 0 || record.user === undefined ? names : extractRoleNames(record.user)
+}
+
+/** Traduce los nombres del backend a roles conocidos; sin coincidencias se usa `DEFAULT_ROLE` */
+export function resolveRoles(roleNames: readonly string[]): Role[] {
+  const roles = new Set<Role>()
+
+  roleNames.forEach((name) => {
+    const role = ROLE_ALIASES[name.trim().toLowerCase()]
+    if (role) {
+      roles.add(role)
+    }
+  })
+
+  return roles.size > 0 ? Array.from(roles) : [DEFAULT_ROLE]
+}
+
+export function hasPermission(roles: readonly Role[], permission: Permission): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role].includes(permission))
+}
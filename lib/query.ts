@@ -0,0 +1,260 @@
+// Caché de consultas compartida entre páginas: agrupa solicitudes idénticas en vuelo, entrega los datos
+// guardados mientras se revalidan (stale-while-revalidate) y se invalida tras cada mutación del cliente HTTP.
+import { api, subscribeToAuthToken, type ResponseInterceptor } from "./api"
+import type { BookQuery, FineQuery, HoldQuery, LoanQuery, MemberQuery } from "./types"
+
+export type QueryKey = readonly unknown[]
+
+export interface QueryState<T> {
+  data: T | undefined
+  error: unknown
+  /** Momento de la última respuesta correcta; 0 si nunca se obtuvo o si se invalidó */
+  updatedAt: number
+  isFetching: boolean
+}
+
+/** Recibe una señal que se cancela cuando ningún componente sigue usando la consulta */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>
+
+interface QueryEntry {
+  key: QueryKey
+  state: QueryState<unknown>
+  promise: Promise<unknown> | null
+  /** Cancela la solicitud en vuelo de `promise` */
+  controller: AbortController | null
+  fetcher: QueryFetcher<unknown> | null
+  listeners: Set<() => void>
+}
+
+export const DEFAULT_STALE_TIME_MS = 30 * 1000
+
+const EMPTY_QUERY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false }
+
+const queryCache = new Map<string, QueryEntry>()
+
+// Prefijos invalidados durante `batchInvalidations`, por hash; `null` fuera de un lote
+let deferredInvalidations: Map<string, QueryKey> | null = null
+
+// Los objetos se serializan con sus claves ordenadas para que `{ a, b }` y `{ b, a }` sean la misma consulta
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value: unknown) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return value
+    }
+
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, property) => {
+        const propertyValue = (value as Record<string, unknown>)[property]
+        if (propertyValue !== undefined) {
+          sorted[property] = propertyValue
+        }
+        return sorted
+      }, {})
+  })
+}
+
+function getEntry(key: QueryKey): QueryEntry {
+  const hash = hashQueryKey(key)
+  let entry = queryCache.get(hash)
+
+  if (!entry) {
+    entry = { key, state: EMPTY_QUERY_STATE, promise: null, controller: null, fetcher: null, listeners: new Set() }
+    queryCache.set(hash, entry)
+  }
+
+  return entry
+}
+
+// Cada cambio crea un nuevo objeto de estado para que `useSyncExternalStore` detecte la diferencia
+function updateEntryState(entry: QueryEntry, changes: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...changes }
+  entry.listeners.forEach((listener) => listener())
+}
+
+// Descarta la solicitud en vuelo: su respuesta, si llega, ya no actualiza el estado
+function cancelEntryFetch(entry: QueryEntry) {
+  entry.controller?.abort()
+  entry.controller = null
+  entry.promise = null
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (queryCache.get(hashQueryKey(key))?.state ?? EMPTY_QUERY_STATE) as QueryState<T>
+}
+
+export function subscribeToQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key)
+  entry.listeners.add(listener)
+
+  return () => {
+    entry.listeners.delete(listener)
+
+    // Nadie espera ya la respuesta (p. ej. al desmontar la página): se cancela la solicitud
+    if (entry.listeners.size === 0 && entry.promise) {
+      cancelEntryFetch(entry)
+      updateEntryState(entry, { isFetching: false })
+    }
+  }
+}
+
+export function isQueryStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME_MS, now = Date.now()): boolean {
+  return now - getQueryState(key).updatedAt >= staleTime
+}
+
+/**
+ * Ejecuta la consulta o reutiliza la que ya está en vuelo con la misma clave. Los datos anteriores se
+ * conservan hasta que llega la nueva respuesta; un error se guarda en el estado y también se propaga.
+ * Una solicitud cancelada no se guarda como error.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T> {
+  const entry = getEntry(key)
+  entry.fetcher = fetcher
+
+  if (entry.promise) {
+    return entry.promise as Promise<T>
+  }
+
+  // Una invalidación puede descartar esta solicitud: entonces su respuesta ya no actualiza el estado
+  const isCurrent = () => entry.promise === promise
+  const controller = new AbortController()
+
+  const promise: Promise<T> = fetcher(controller.signal)
+    .then((data) => {
+      if (isCurrent()) {
+        updateEntryState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false })
+      }
+      return data
+    })
+    .catch((error: unknown) => {
+      if (isCurrent() && !controller.signal.aborted) {
+        console.error(`Error en la consulta ${hashQueryKey(key)}:`, error)
+        updateEntryState(entry, { error, isFetching: false })
+      }
+      throw error
+    })
+    .finally(() => {
+      if (isCurrent()) {
+        entry.promise = null
+        entry.controller = null
+      }
+    })
+
+  entry.promise = promise
+  entry.controller = controller
+  updateEntryState(entry, { isFetching: true })
+  return promise
+}
+
+/** Reemplaza los datos guardados, por ejemplo tras una mutación cuya respuesta ya los trae */
+export function setQueryData<T>(key: QueryKey, updater: (current: T | undefined) => T) {
+  const entry = getEntry(key)
+  updateEntryState(entry, { data: updater(entry.state.data as T | undefined), error: null, updatedAt: Date.now() })
+}
+
+/**
+ * Marca como desactualizadas las consultas cuya clave empieza por `prefix` (`["books"]` invalida todos
+ * los listados y detalles de libros). Las que tienen componentes suscritos se vuelven a pedir de inmediato.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  const prefixHash = hashQueryKey(prefix)
+  if (deferredInvalidations) {
+    deferredInvalidations.set(prefixHash, prefix)
+    return
+  }
+
+  queryCache.forEach((entry) => {
+    if (hashQueryKey(entry.key.slice(0, prefix.length)) !== prefixHash) {
+      return
+    }
+
+    // Una solicitud en vuelo pudo empezar antes de la mutación: se descarta y se pide de nuevo
+    cancelEntryFetch(entry)
+    updateEntryState(entry, { updatedAt: 0, isFetching: false })
+
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {
+        // El error queda registrado en el estado de la consulta
+      })
+    }
+  })
+}
+
+/**
+ * Ejecuta varias mutaciones seguidas (p. ej. una importación masiva) invalidando cada prefijo una sola vez al
+ * terminar, en lugar de volver a pedir los listados después de cada solicitud.
+ */
+export async function batchInvalidations<T>(run: () => Promise<T>): Promise<T> {
+  if (deferredInvalidations) {
+    return run()
+  }
+
+  const pending = new Map<string, QueryKey>()
+  deferredInvalidations = pending
+  try {
+    return await run()
+  } finally {
+    deferredInvalidations = null
+    pending.forEach((prefix) => invalidateQueries(prefix))
+  }
+}
+
+/** Descarta todos los datos guardados, por ejemplo al cerrar la sesión */
+export function resetQueries() {
+  queryCache.forEach((entry) => {
+    cancelEntryFetch(entry)
+    updateEntryState(entry, EMPTY_QUERY_STATE)
+  })
+}
+
+export const queryKeys = {
+  libraries: () => ["libraries", "list"] as const,
+  library: (id: string) => ["libraries", "detail", id] as const,
+  books: (filters: BookQuery = {}) => ["books", "list", filters] as const,
+  bookPage: (query: BookQuery) => ["books", "page", query] as const,
+  book: (id: string) => ["books", "detail", id] as const,
+  booksByIds: (ids: readonly string[]) => ["books", "byIds", ids] as const,
+  bookCopies: (bookId: string) => ["books", "copies", bookId] as const,
+  members: () => ["members", "list"] as const,
+  memberPage: (query: MemberQuery) => ["members", "page", query] as const,
+  member: (id: string) => ["members", "detail", id] as const,
+  membersByIds: (ids: readonly string[]) => ["members", "byIds", ids] as const,
+  loans: (filters: LoanQuery = {}) => ["loans", "list", filters] as const,
+  loanPage: (query: LoanQuery) => ["loans", "page", query] as const,
+  fines: (filters: FineQuery = {}) => ["fines", "list", filters] as const,
+  holds: (filters: HoldQuery = {}) => ["holds", "list", filters] as const,
+  activeHolds: () => ["holds", "active"] as const,
+}
+
+// Recursos cuyos datos cambian cuando se modifica otro: las bibliotecas incluyen sus libros y los
+// préstamos cambian la disponibilidad de los libros, las multas que se calculan y la cola de reservas.
+const MUTATION_INVALIDATIONS: Record<string, readonly string[]> = {
+  books: ["books", "libraries", "loans"],
+  libraries: ["libraries", "books"],
+  members: ["members", "loans"],
+  loans: ["loans", "books", "libraries", "fines", "holds"],
+  fines: ["fines"],
+  holds: ["holds", "loans"],
+  copies: ["books", "libraries", "loans"],
+}
+
+export const invalidateAfterMutationInterceptor: ResponseInterceptor = (response, request) => {
+  if (request.method === "GET" || !response.ok) {
+    return
+  }
+
+  const [resource = ""] = request.path.split("/").filter(Boolean)
+  MUTATION_INVALIDATIONS[resource]?.forEach((dependentResource) => invalidateQueries([dependentResource]))
+}
+
+// La caché solo existe en el navegador; en el servidor cada render parte sin datos
+if (typeof window !== "undefined") {
+  api.interceptors.response.use(invalidateAfterMutationInterceptor)
+
+  // Los datos de un usuario no deben verse tras cerrar su sesión o al iniciar otra
+  subscribeToAuthToken((token) => {
+    if (!token) {
+      resetQueries()
+    }
+  })
+}
@@ -0,0 +1,65 @@
+// Lectura de la sesión desde la cookie httpOnly para Server Components, Server Actions y route handlers.
+// Importar este módulo solo desde código de servidor: depende de `next/headers`.
+import { cookies } from "next/headers"
+import type { NextResponse } from "next/server"
+import { configureAuthTokenProvider, extractAuthToken, extractRefreshToken, type LoginResponse } from "./api"
+import {
+  AUTH_COOKIE_MAX_AGE_SECONDS,
+  AUTH_COOKIE_NAME,
+  REFRESH_COOKIE_MAX_AGE_SECONDS,
+  REFRESH_COOKIE_NAME,
+  authCookieOptions,
+} from "./auth-session"
+import { getTokenExpiration } from "./jwt"
+
+export function getServerAuthToken(): string | null {
+  return cookies().get(AUTH_COOKIE_NAME)?.value || null
+}
+
+export function getServerRefreshToken(): string | null {
+  return cookies().get(REFRESH_COOKIE_NAME)?.value || null
+}
+
+// `cookies()` está ligado a la solicitud en curso, por lo que el proveedor es seguro aunque el
+// cliente HTTP sea un módulo compartido entre solicitudes.
+configureAuthTokenProvider(getServerAuthToken)
+
+/** La cookie vive lo mismo que el token cuando este declara `exp` */
+function getCookieMaxAge(token: string, fallbackSeconds: number) {
+  const expiresAt = getTokenExpiration(token)
+  return expiresAt === null ? fallbackSeconds : Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))
+}
+
+/** Cuerpo de la respuesta de sesión que puede ver el navegador: todo salvo el refresh token */
+export function toPublicSessionPayload(payload: LoginResponse): LoginResponse {
+  const publicPayload = { ...payload }
+  delete publicPayload.refreshToken
+  delete publicPayload.refresh_token
+  return publicPayload
+}
+
+/** Guarda en cookies httpOnly los tokens de una respuesta de inicio de sesión o renovación */
+export function applySessionCookies(response: NextResponse, payload: LoginResponse) {
+  const token = extractAuthToken(payload)
+  if (!token) {
+    return
+  }
+
+  response.cookies.set(AUTH_COOKIE_NAME, token, {
+    ...authCookieOptions,
+    maxAge: getCookieMaxAge(token, AUTH_COOKIE_MAX_AGE_SECONDS),
+  })
+
+  const refreshToken = extractRefreshToken(payload)
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE_NAME, refreshToken, {
+      ...authCookieOptions,
+      maxAge: getCookieMaxAge(refreshToken, REFRESH_COOKIE_MAX_AGE_SECONDS),
+    })
+  }
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(AUTH_COOKIE_NAME, "", { ...authCookieOptions, maxAge: 0 })
+  response.cookies.set(REFRESH_COOKIE_NAME, "", { ...authCookieOptions, maxAge: 0 })
+}
@@ -1,17 +1,48 @@
 // Shared DTOs and types for the library management system
+import { z } from "zod"
+
 // Relationship: cada libro pertenece a una biblioteca específica identificada por `libraryId`.
+// El libro es el registro bibliográfico; sus ejemplares físicos (`copies`) pueden estar en otras bibliotecas.
 export interface Book {
   id: string
   title: string
   author: string
   isbn?: string
+  /** Queda al menos un ejemplar disponible para préstamo */
   available: boolean
   libraryId: string
   library?: Library
+  /** Ejemplares físicos; los backends sin inventario por ejemplar no los envían */
+  copies?: BookCopy[]
+  totalCopies?: number
+  availableCopies?: number
   createdAt?: string | null
   updatedAt?: string | null
 }
 
+export type CopyStatus = "available" | "on_loan" | "on_hold" | "maintenance" | "lost"
+
+/** Ejemplar físico de un título, con su propio código de barras, biblioteca, ubicación y estado */
+export interface BookCopy {
+  id: string
+  bookId: string
+  barcode: string
+  libraryId: string
+  /** Ubicación en la estantería, p. ej. `B-12` */
+  shelfLocation?: string
+  status: CopyStatus
+  library?: Library
+  createdAt?: string | null
+  updatedAt?: string | null
+}
+
+export interface CreateCopyDto {
+  barcode: string
+  libraryId: string
+  shelfLocation?: string
+  status?: CopyStatus
+}
+
 export interface Library {
   id: string
   name: string
@@ -29,6 +60,8 @@ export interface Member {
   name: string
   email: string
   phone?: string
+  /** Categoría del miembro (p. ej. `student`) con la que se eligen las políticas de préstamo */
+  memberType?: string
   createdAt?: string | null
   updatedAt?: string | null
 }
@@ -40,11 +73,55 @@ export interface Loan {
   loanDate?: string | null
   returnDate?: string | null
   isReturned: boolean
+  /** Fecha límite de devolución; los backends que no la envían usan `returnDate` mientras el préstamo está activo */
+  dueDate?: string | null
+  /** Renovaciones ya aplicadas; si el backend no la envía se deduce de `renewals` */
+  renewalCount?: number
+  renewals?: LoanRenewal[]
+  /** El libro tiene reservas pendientes: el préstamo no se puede renovar */
+  hasPendingHold?: boolean
+  /** Ejemplar prestado, si el backend lleva inventario por ejemplar */
+  copyId?: string
+  copy?: BookCopy
   book?: Book
   member?: Member
   library?: Library
 }
 
+export type HoldStatus = "waiting" | "ready" | "fulfilled" | "cancelled" | "expired"
+
+/** Reserva de un libro prestado; las reservas de un mismo libro se atienden por orden de llegada */
+export interface Hold {
+  id: string
+  bookId: string
+  memberId: string
+  status: HoldStatus
+  createdAt?: string | null
+  /** Momento en que el libro quedó apartado para el miembro */
+  readyAt?: string | null
+  /** Fecha límite para recoger el libro una vez apartado */
+  expiresAt?: string | null
+  book?: Book
+  member?: Member
+}
+
+export interface HoldQuery {
+  bookId?: string
+  memberId?: string
+  status?: HoldStatus
+}
+
+export interface CreateHoldDto {
+  bookId: string
+  memberId: string
+}
+
+export interface LoanRenewal {
+  renewedAt?: string | null
+  previousDueDate?: string | null
+  dueDate?: string | null
+}
+
 export interface CreateBookDto {
   title: string
   author: string
@@ -60,10 +137,41 @@ export interface CreateLibraryDto {
   openingHours: string
 }
 
-export interface BookQuery {
+export type SortOrder = "asc" | "desc"
+
+/** Parámetros comunes de los listados paginados; `page` empieza en 1 */
+export interface PaginationQuery<S extends string = string> {
+  page?: number
+  limit?: number
+  sort?: S
+  order?: SortOrder
+}
+
+/** Página de resultados de un listado */
+export interface Paginated<T> {
+  items: T[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+export type BookSortField = "title" | "author" | "createdAt"
+
+export interface BookQuery extends PaginationQuery<BookSortField> {
   title?: string
   author?: string
   libraryId?: string
+  /** ISBN-13 normalizado; se compara completo */
+  isbn?: string
+  available?: boolean
+}
+
+export type MemberSortField = "name" | "email" | "createdAt"
+
+export interface MemberQuery extends PaginationQuery<MemberSortField> {
+  name?: string
+  email?: string
 }
 
 export interface CreateMemberDto {
@@ -75,16 +183,320 @@ export interface CreateMemberDto {
 
 export interface CreateLoanDto {
   bookId: string
+  /** Ejemplar concreto que se presta; obligatorio si el libro tiene inventario por ejemplar */
+  copyId?: string
+  memberId: string
+  /** Fecha límite de devolución (ISO 8601) calculada por la política o fijada por el personal */
+  dueDate?: string
+}
+
+export type FineStatus = "pending" | "paid" | "waived"
+
+/** Multa registrada en el backend por la devolución tardía de un préstamo */
+export interface Fine {
+  id: string
+  loanId: string
   memberId: string
+  amount: number
+  status: FineStatus
+  /** Motivo de la condonación u observaciones del personal */
+  note?: string
+  createdAt?: string | null
+  updatedAt?: string | null
+}
+
+export interface FineQuery {
+  memberId?: string
+  loanId?: string
+  status?: FineStatus
 }
 
-export interface LoanQuery {
+export interface CreateFineDto {
+  loanId: string
+  memberId: string
+  amount: number
+  status?: FineStatus
+  note?: string
+}
+
+export interface RenewLoanDto {
+  /** Nueva fecha límite de devolución (ISO 8601) */
+  dueDate: string
+}
+
+export type LoanStatus = "active" | "returned" | "overdue"
+
+export type LoanSortField = "loanDate" | "returnDate"
+
+export interface LoanQuery extends PaginationQuery<LoanSortField> {
   bookId?: string
   memberId?: string
+  libraryId?: string
   activeOnly?: boolean
+  status?: LoanStatus
+  /** Día `YYYY-MM-DD` desde el que se prestó, inclusivo */
+  loanDateFrom?: string
+  /** Día `YYYY-MM-DD` hasta el que se prestó, inclusivo */
+  loanDateTo?: string
 }
 
 export interface ApiError {
   message: string
   statusCode: number
 }
+
+// Esquemas de validación de las respuestas del backend.
+// Normalizan diferencias de representación (ids numéricos, `null` en campos opcionales, booleanos
+// serializados como texto) y rechazan respuestas a las que les falten campos obligatorios.
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+const idSchema = z.union([z.string().min(1), z.number()]).transform(String)
+
+const optionalTextSchema = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+const timestampSchema = z.string().nullish()
+
+const booleanSchema = z
+  .union([z.boolean(), z.enum(["true", "false"]), z.literal(0), z.literal(1)])
+  .transform((value) => value === true || value === "true" || value === 1)
+
+export const librarySchema: ResponseSchema<Library> = z.lazy(() =>
+  z.object({
+    id: idSchema,
+    name: z.string(),
+    address: optionalTextSchema,
+    openingHours: optionalTextSchema,
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema,
+    books: z
+      .array(bookSchema)
+      .nullish()
+      .transform((value) => value ?? undefined),
+  }),
+)
+
+const copyCountSchema = z.coerce
+  .number()
+  .int()
+  .nonnegative()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+export const copySchema: ResponseSchema<BookCopy> = z
+  .object({
+    id: idSchema,
+    // Los ejemplares anidados en su libro no siempre repiten `bookId`
+    bookId: idSchema.optional(),
+    barcode: z.string(),
+    libraryId: idSchema.optional(),
+    shelfLocation: optionalTextSchema,
+    // Un estado desconocido no debe ofrecerse para préstamo
+    status: z.enum(["available", "on_loan", "on_hold", "maintenance", "lost"]).catch("maintenance"),
+    library: librarySchema.nullish(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema,
+  })
+  .superRefine((copy, context) => {
+    if (!copy.libraryId && !copy.library) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["libraryId"], message: "Required" })
+    }
+  })
+  .transform(({ bookId, libraryId, library, ...copy }) => ({
+    ...copy,
+    bookId: bookId ?? "",
+    libraryId: libraryId ?? library?.id ?? "",
+    library: library ?? undefined,
+  }))
+
+export const bookSchema: ResponseSchema<Book> = z.lazy(() =>
+  z
+    .object({
+      id: idSchema,
+      title: z.string(),
+      author: z.string(),
+      isbn: optionalTextSchema,
+      available: booleanSchema.optional(),
+      libraryId: idSchema.optional(),
+      library: librarySchema.nullish(),
+      copies: z.array(copySchema).nullish(),
+      totalCopies: copyCountSchema,
+      availableCopies: copyCountSchema,
+      createdAt: timestampSchema,
+      updatedAt: timestampSchema,
+    })
+    .superRefine((book, context) => {
+      // Algunos endpoints solo incluyen la relación `library` sin el id plano
+      if (!book.libraryId && !book.library) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ["libraryId"], message: "Required" })
+      }
+      // Con inventario por ejemplar la disponibilidad se deduce de los ejemplares
+      if (book.available === undefined && book.availableCopies === undefined && !book.copies) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ["available"], message: "Required" })
+      }
+    })
+    .transform(({ libraryId, library, copies, available, ...book }) => {
+      const bookCopies = copies?.map((copy) => ({ ...copy, bookId: copy.bookId || book.id }))
+      const availableCopies =
+        book.availableCopies ?? bookCopies?.filter((copy) => copy.status === "available").length
+
+      return {
+        ...book,
+        available: available ?? (availableCopies ?? 0) > 0,
+        libraryId: libraryId ?? library?.id ?? "",
+        library: library ?? undefined,
+        copies: bookCopies,
+        totalCopies: book.totalCopies ?? bookCopies?.length,
+        availableCopies,
+      }
+    }),
+)
+
+export const memberSchema: ResponseSchema<Member> = z.object({
+  id: idSchema,
+  name: z.string(),
+  email: z.string(),
+  phone: optionalTextSchema,
+  memberType: optionalTextSchema,
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+})
+
+const loanRenewalSchema: ResponseSchema<LoanRenewal> = z.object({
+  renewedAt: timestampSchema,
+  previousDueDate: timestampSchema,
+  dueDate: timestampSchema,
+})
+
+export const loanSchema: ResponseSchema<Loan> = z
+  .object({
+    id: idSchema,
+    bookId: idSchema.optional(),
+    memberId: idSchema.optional(),
+    loanDate: timestampSchema,
+    returnDate: timestampSchema,
+    isReturned: booleanSchema,
+    dueDate: timestampSchema,
+    renewalCount: z.coerce.number().int().nonnegative().nullish(),
+    renewals: z.array(loanRenewalSchema).nullish(),
+    hasPendingHold: booleanSchema.optional(),
+    copyId: idSchema.optional(),
+    copy: copySchema.nullish(),
+    book: bookSchema.nullish(),
+    member: memberSchema.nullish(),
+    library: librarySchema.nullish(),
+  })
+  .superRefine((loan, context) => {
+    if (!loan.bookId && !loan.book) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["bookId"], message: "Required" })
+    }
+    if (!loan.memberId && !loan.member) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["memberId"], message: "Required" })
+    }
+  })
+  .transform(({ bookId, memberId, copyId, copy, book, member, library, renewalCount, renewals, ...loan }) => ({
+    ...loan,
+    bookId: bookId ?? book?.id ?? "",
+    memberId: memberId ?? member?.id ?? "",
+    copyId: copyId ?? copy?.id,
+    copy: copy ?? undefined,
+    renewalCount: renewalCount ?? renewals?.length ?? undefined,
+    renewals: renewals ?? undefined,
+    book: book ?? undefined,
+    member: member ?? undefined,
+    library: library ?? undefined,
+  }))
+
+export const holdSchema: ResponseSchema<Hold> = z
+  .object({
+    id: idSchema,
+    bookId: idSchema.optional(),
+    memberId: idSchema.optional(),
+    status: z.enum(["waiting", "ready", "fulfilled", "cancelled", "expired"]).catch("waiting"),
+    createdAt: timestampSchema,
+    readyAt: timestampSchema,
+    expiresAt: timestampSchema,
+    book: bookSchema.nullish(),
+    member: memberSchema.nullish(),
+  })
+  .superRefine((hold, context) => {
+    if (!hold.bookId && !hold.book) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["bookId"], message: "Required" })
+    }
+    if (!hold.memberId && !hold.member) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ["memberId"], message: "Required" })
+    }
+  })
+  .transform(({ bookId, memberId, book, member, ...hold }) => ({
+    ...hold,
+    bookId: bookId ?? book?.id ?? "",
+    memberId: memberId ?? member?.id ?? "",
+    book: book ?? undefined,
+    member: member ?? undefined,
+  }))
+
+export const fineSchema: ResponseSchema<Fine> = z.object({
+  id: idSchema,
+  loanId: idSchema,
+  memberId: idSchema,
+  // Los importes decimales suelen llegar como texto desde columnas `numeric`
+  amount: z.coerce.number().nonnegative(),
+  status: z.enum(["pending", "paid", "waived"]).catch("pending"),
+  note: optionalTextSchema,
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+})
+
+const countSchema = z.coerce.number().int().nonnegative().optional()
+
+/**
+ * Respuesta de un listado: los backends paginados devuelven `{ items | data | results, total | count, page,
+ * limit }` (o esos datos dentro de `meta`), mientras que los que no paginan devuelven el arreglo completo.
+ * `isComplete` indica este último caso, en el que la paginación se resuelve en el cliente.
+ */
+export interface PageResponse<T> {
+  items: T[]
+  total?: number
+  page?: number
+  limit?: number
+  isComplete: boolean
+}
+
+export function pageResponseSchema<T>(itemSchema: ResponseSchema<T>): ResponseSchema<PageResponse<T>> {
+  const metaSchema = z.object({ total: countSchema, count: countSchema, page: countSchema, limit: countSchema })
+  const listSchema = z.array(itemSchema).transform((items): PageResponse<T> => ({ items, isComplete: true }))
+  const pageSchema = z
+    .object({
+      items: z.array(itemSchema).optional(),
+      data: z.array(itemSchema).optional(),
+      results: z.array(itemSchema).optional(),
+      meta: metaSchema.optional(),
+    })
+    .merge(metaSchema)
+    .superRefine((page, context) => {
+      if (!page.items && !page.data && !page.results) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ["items"], message: "Required" })
+      }
+    })
+    .transform(({ items, data, results, meta, ...counts }) => ({
+      items: items ?? data ?? results ?? [],
+      total: counts.total ?? counts.count ?? meta?.total ?? meta?.count,
+      page: counts.page ?? meta?.page,
+      limit: counts.limit ?? meta?.limit,
+      isComplete: false,
+    }))
+
+  // Se elige la forma antes de validar: con `z.union` un elemento inválido se reportaría como un único
+  // `invalid_union` en la raíz y `ApiSchemaError` perdería la ruta del campo (`[3].available`)
+  return z.unknown().transform((data, context) => {
+    const result = (Array.isArray(data) ? listSchema : pageSchema).safeParse(data)
+    if (!result.success) {
+      result.error.issues.forEach((issue) => context.addIssue(issue))
+      return z.NEVER
+    }
+
+    return result.data
+  })
+}
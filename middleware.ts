@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { buildLoginUrl } from "@/lib/auth-redirect"
+import { AUTH_COOKIE_NAME, REFRESH_COOKIE_NAME } from "@/lib/auth-session"
+import { isTokenExpired } from "@/lib/jwt"
+
+export function middleware(request: NextRequest) {
+  const accessToken = request.cookies.get(AUTH_COOKIE_NAME)?.value
+
+  // Con el token vencido la página puede cargarse si hay refresh token: el cliente lo renueva antes
+  // de su primera llamada al backend
+  if ((accessToken && !isTokenExpired(accessToken)) || request.cookies.get(REFRESH_COOKIE_NAME)?.value) {
+    return NextResponse.next()
+  }
+
+  const { pathname, search } = request.nextUrl
+  return NextResponse.redirect(new URL(buildLoginUrl(`${pathname}${search}`), request.url))
+}
+
+// Secciones del panel que requieren sesión iniciada
+export const config = {
+  matcher: ["/books/:path*", "/members/:path*", "/loans/:path*", "/libraries/:path*", "/holds/:path*"],
+}